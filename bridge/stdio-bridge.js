@@ -0,0 +1,161 @@
+/**
+ * Stdio bridge for the MCP React client
+ *
+ * Browsers cannot spawn processes, so this small Node server does it for them:
+ * each WebSocket connection asks the bridge to spawn one stdio MCP server, and
+ * the bridge relays newline-delimited JSON-RPC between the socket and the
+ * process's stdin/stdout.
+ *
+ * Protocol (bridge control messages carry a "bridge" field):
+ *   client -> bridge  { bridge: 'spawn', command, args }
+ *   bridge -> client  { bridge: 'ready', pid }
+ *   bridge -> client  { bridge: 'stderr', data }
+ *   bridge -> client  { bridge: 'error', message }
+ *   bridge -> client  { bridge: 'exit', code, signal }
+ * Every other message is JSON-RPC and is forwarded untouched.
+ *
+ * Configuration (environment variables):
+ *   MCP_BRIDGE_PORT              Port to listen on (default 3001)
+ *   MCP_BRIDGE_HOST              Interface to bind (default 127.0.0.1)
+ *   MCP_BRIDGE_ALLOWED_ORIGINS   Comma-separated browser origins allowed to connect
+ *                                (default http://localhost:3000,http://127.0.0.1:3000)
+ *   MCP_BRIDGE_ALLOWED_COMMANDS  Comma-separated list of commands that may be spawned, or "*"
+ *                                for any command. Nothing is spawned until this is set.
+ *   MCP_BRIDGE_ALLOW_NO_ORIGIN   Set to "true" to accept connections without an Origin header,
+ *                                e.g. from scripts; browsers always send one
+ *
+ * Usage: npm run bridge
+ */
+import { spawn } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import { WebSocketServer } from 'ws';
+
+const port = Number(process.env.MCP_BRIDGE_PORT || 3001);
+const host = process.env.MCP_BRIDGE_HOST || '127.0.0.1';
+const allowedOrigins = parseList(process.env.MCP_BRIDGE_ALLOWED_ORIGINS, [
+  'http://localhost:3000',
+  'http://127.0.0.1:3000'
+]);
+const allowedCommands = parseList(process.env.MCP_BRIDGE_ALLOWED_COMMANDS, []);
+const allowAnyCommand = allowedCommands.includes('*');
+const allowNoOrigin = process.env.MCP_BRIDGE_ALLOW_NO_ORIGIN === 'true';
+
+function parseList(value, fallback) {
+  if (!value) return fallback;
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function sendControl(socket, message) {
+  if (socket.readyState === socket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+const server = new WebSocketServer({
+  host,
+  port,
+  // Only the configured browser origins may ask us to spawn processes. Clients
+  // without an origin are not browsers and need to be allowed explicitly.
+  verifyClient: ({ origin }) => (origin ? allowedOrigins.includes(origin) : allowNoOrigin)
+});
+
+server.on('connection', (socket) => {
+  let child = null;
+  // Set once the server process is gone, after which nothing may be written to it
+  let childGone = false;
+
+  socket.on('message', (data) => {
+    const text = data.toString();
+
+    if (!child) {
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch (error) {
+        sendControl(socket, { bridge: 'error', message: 'Expected a spawn message as JSON' });
+        socket.close(1008, 'Invalid spawn message');
+        return;
+      }
+
+      if (message.bridge !== 'spawn' || typeof message.command !== 'string' || !message.command) {
+        sendControl(socket, { bridge: 'error', message: 'The first message must be a spawn request' });
+        socket.close(1008, 'Invalid spawn message');
+        return;
+      }
+
+      if (!allowAnyCommand && !allowedCommands.includes(message.command)) {
+        sendControl(socket, { bridge: 'error', message: `Command not allowed: ${message.command}` });
+        socket.close(1008, 'Command not allowed');
+        return;
+      }
+
+      const args = Array.isArray(message.args) ? message.args.map(String) : [];
+      console.log(`[bridge] spawning: ${message.command} ${args.join(' ')}`);
+
+      child = spawn(message.command, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+
+      child.on('spawn', () => {
+        sendControl(socket, { bridge: 'ready', pid: child.pid });
+      });
+
+      child.on('error', (error) => {
+        console.error('[bridge] failed to start server:', error.message);
+        sendControl(socket, { bridge: 'error', message: `Failed to start server: ${error.message}` });
+        socket.close(1011, 'Server process failed');
+      });
+
+      child.on('exit', (code, signal) => {
+        childGone = true;
+        console.log(`[bridge] server exited (code ${code}, signal ${signal})`);
+        sendControl(socket, { bridge: 'exit', code, signal });
+        socket.close(1000, 'Server process exited');
+      });
+
+      child.on('close', () => {
+        childGone = true;
+      });
+
+      // Writing to a server that exited or closed stdin fails with EPIPE. Without a
+      // handler that would crash the bridge and end every other session too.
+      child.stdin.on('error', (error) => {
+        childGone = true;
+        console.error('[bridge] failed to write to server:', error.message);
+        sendControl(socket, { bridge: 'error', message: `Server stopped accepting input: ${error.message}` });
+        socket.close(1011, 'Server process input closed');
+      });
+
+      // stdio MCP servers write one JSON-RPC message per line
+      createInterface({ input: child.stdout }).on('line', (line) => {
+        if (line.trim() && socket.readyState === socket.OPEN) {
+          socket.send(line);
+        }
+      });
+
+      createInterface({ input: child.stderr }).on('line', (line) => {
+        sendControl(socket, { bridge: 'stderr', data: line });
+      });
+
+      return;
+    }
+
+    if (!childGone && child.stdin.writable) {
+      child.stdin.write(`${text}\n`);
+    }
+  });
+
+  socket.on('close', () => {
+    if (child && child.exitCode === null) {
+      child.kill();
+    }
+  });
+});
+
+server.on('listening', () => {
+  console.log(`[bridge] MCP stdio bridge listening on ws://${host}:${port}`);
+  console.log(`[bridge] allowed origins: ${allowedOrigins.join(', ')}`);
+  if (allowedCommands.length === 0) {
+    console.warn('[bridge] no commands are allowed; set MCP_BRIDGE_ALLOWED_COMMANDS, e.g. "node,python"');
+  } else {
+    console.log(`[bridge] allowed commands: ${allowAnyCommand ? 'any' : allowedCommands.join(', ')}`);
+  }
+});
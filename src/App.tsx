@@ -1,54 +1,158 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import ConnectionManager from './components/ConnectionManager';
 import ToolsList from './components/ToolsList';
+import ResourcesList from './components/ResourcesList';
 import ChatInterface from './components/ChatInterface';
-import { HttpMcpClient } from './services/HttpMcpClient'; // Use HTTP client for real server
-// import { McpClient } from './services/McpClient'; // Old mock client
+import SamplingApprovalDialog from './components/SamplingApprovalDialog';
+import RootsManager from './components/RootsManager';
+import ServerInfoPanel from './components/ServerInfoPanel';
+import { McpClientGroup } from './services/McpClientGroup';
+import { ToolApprovalPolicy } from './services/ToolApprovalPolicy';
 import { LLMServiceFactory } from './services/LLMServiceFactory';
+import { serverTypeUsesMcpProtocol } from './config/servers';
+import { v4 as uuidv4 } from 'uuid';
 import { 
   McpTool, 
+  McpResource,
+  McpResourceTemplate,
+  McpResourceAttachment,
+  McpPrompt,
+  McpLogLevel,
+  McpSamplingRequest,
+  McpSamplingResult,
+  McpError,
+  McpRoot,
+  McpServerConnection,
   McpServerConfig, 
+  LLMCompletion,
   LLMConfig, 
   ConnectionStatus,
-  McpClientInterface,
   LLMServiceInterface,
+  ToolApprovalMode,
   SupportedLanguage
 } from './types';
 
+// A sampling request from the server that waits for the user's decision
+interface PendingSamplingRequest {
+  id: string;
+  request: McpSamplingRequest;
+}
+
+interface SamplingResolvers {
+  resolve: (result: McpSamplingResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Writes a log message sent by the MCP server to the matching console method
+const logServerMessage = (level: McpLogLevel, logger: string | undefined, data: any) => {
+  const prefix = logger ? `[MCP server: ${logger}]` : '[MCP server]';
+  switch (level) {
+    case 'debug':
+      console.debug(prefix, data);
+      break;
+    case 'info':
+    case 'notice':
+      console.info(prefix, data);
+      break;
+    case 'warning':
+      console.warn(prefix, data);
+      break;
+    default:
+      console.error(prefix, data);
+  }
+};
+
+// Summarizes the state of the connected servers for the status line
+const describeServers = (servers: McpServerConnection[]): string => {
+  const connected = servers.filter(server => server.status === 'connected').length;
+  const reconnecting = servers.filter(server => server.status === 'reconnecting').map(server => server.name);
+  const failed = servers.filter(server => server.status === 'error').map(server => server.name);
+
+  let message = `Connected to ${connected} of ${servers.length} MCP servers`;
+  if (reconnecting.length > 0) {
+    message += `; reconnecting to ${reconnecting.join(', ')}`;
+  }
+  if (failed.length > 0) {
+    message += `; lost ${failed.join(', ')}`;
+  }
+  return message;
+};
+
 const App: React.FC = () => {
-  const [mcpClient, setMcpClient] = useState<McpClientInterface | null>(null);
+  const [mcpClient, setMcpClient] = useState<McpClientGroup | null>(null);
   const [llmService, setLlmService] = useState<LLMServiceInterface | null>(null);
   const [tools, setTools] = useState<McpTool[]>([]);
+  const [resources, setResources] = useState<McpResource[]>([]);
+  const [resourceTemplates, setResourceTemplates] = useState<McpResourceTemplate[]>([]);
+  const [attachments, setAttachments] = useState<McpResourceAttachment[]>([]);
+  const [prompts, setPrompts] = useState<McpPrompt[]>([]);
+  const [samplingRequests, setSamplingRequests] = useState<PendingSamplingRequest[]>([]);
+  const [samplingCompletions, setSamplingCompletions] = useState<LLMCompletion[]>([]);
+  // Kept outside state so that state updaters stay free of side effects
+  const samplingResolversRef = useRef(new Map<string, SamplingResolvers>());
+  const [servers, setServers] = useState<McpServerConnection[]>([]);
+  // Roots are granted per server, keyed by server name
+  const [serverRoots, setServerRoots] = useState<Record<string, McpRoot[]>>({});
+  const [toolApprovalPolicy, setToolApprovalPolicy] = useState<ToolApprovalPolicy | null>(null);
+  const [approvalModes, setApprovalModes] = useState<Record<string, ToolApprovalMode>>({});
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [selectedLanguage, setSelectedLanguage] = useState<SupportedLanguage>(
     (import.meta.env.VITE_DEFAULT_LANGUAGE as SupportedLanguage) || 'en'
   );
 
+  // Lists resources and prompts of all servers; servers without support for them simply have none
+  const loadServerFeatures = useCallback(async (client: McpClientGroup) => {
+    const [availableResources, availableTemplates, availablePrompts] = await Promise.all([
+      client.listResources().catch((error) => {
+        console.warn('Could not list resources:', error);
+        return [];
+      }),
+      client.listResourceTemplates().catch(() => []),
+      client.listPrompts().catch((error) => {
+        console.warn('Could not list prompts:', error);
+        return [];
+      })
+    ]);
+    setResources(availableResources);
+    setResourceTemplates(availableTemplates);
+    setPrompts(availablePrompts);
+  }, []);
+
   const handleConnect = useCallback(async (serverConfig: McpServerConfig, llmConfig: LLMConfig) => {
     try {
       setConnectionStatus('connecting');
       setStatusMessage('Connecting to MCP server...');
 
-      // Add language to server config
-      const configWithLanguage = {
-        ...serverConfig,
-        language: selectedLanguage
-      };
+      // A group left over from a failed connect still holds sockets and listeners
+      if (mcpClient) {
+        await mcpClient.disconnect().catch((error) => console.warn('Could not disconnect the previous servers:', error));
+        setMcpClient(null);
+      }
 
-      // Initialize MCP client (using HTTP client for real server connection)
-      const client = new HttpMcpClient();
-      await client.connect(configWithLanguage);
+      // Further servers are added to the same group while connected
+      const client = new McpClientGroup();
+      client.setLanguage(selectedLanguage);
+      await client.connect({ ...serverConfig, language: selectedLanguage });
       setMcpClient(client);
+      setServers(client.getServers());
+      setServerRoots({});
+      setSamplingCompletions([]);
 
       // List available tools
       const availableTools = await client.listTools();
       setTools(availableTools);
 
+      setAttachments([]);
+      await loadServerFeatures(client);
+
       // Initialize LLM service based on provider
       const llm = LLMServiceFactory.create(llmConfig, availableTools, client);
       setLlmService(llm);
 
+      // Approval decisions the user remembers last until the next connect
+      setToolApprovalPolicy(new ToolApprovalPolicy());
+
       setConnectionStatus('connected');
       setStatusMessage(`Connected to server with ${availableTools.length} tools using ${llmConfig.provider}`);
     } catch (error: any) {
@@ -56,7 +160,23 @@ const App: React.FC = () => {
       setStatusMessage(`Connection failed: ${error.message}`);
       console.error('Connection error:', error);
     }
-  }, [selectedLanguage]);
+  }, [mcpClient, selectedLanguage, loadServerFeatures]);
+
+  const handleAddServer = useCallback(async (serverConfig: McpServerConfig) => {
+    if (!mcpClient) {
+      return;
+    }
+
+    try {
+      setStatusMessage('Connecting to MCP server...');
+      await mcpClient.connect({ ...serverConfig, language: selectedLanguage });
+      await loadServerFeatures(mcpClient);
+      setStatusMessage(describeServers(mcpClient.getServers()));
+    } catch (error: any) {
+      setStatusMessage(`Connection failed: ${error.message}`);
+      console.error('Connection error:', error);
+    }
+  }, [mcpClient, selectedLanguage, loadServerFeatures]);
 
   const handleDisconnect = useCallback(async () => {
     try {
@@ -65,7 +185,15 @@ const App: React.FC = () => {
         setMcpClient(null);
       }
       setLlmService(null);
+      setToolApprovalPolicy(null);
       setTools([]);
+      setResources([]);
+      setResourceTemplates([]);
+      setAttachments([]);
+      setPrompts([]);
+      setServers([]);
+      setServerRoots({});
+      setSamplingCompletions([]);
       setConnectionStatus('disconnected');
       setStatusMessage('Disconnected from server');
     } catch (error: any) {
@@ -74,6 +202,173 @@ const App: React.FC = () => {
     }
   }, [mcpClient]);
 
+  const handleRemoveServer = useCallback(async (name: string) => {
+    if (!mcpClient) {
+      return;
+    }
+
+    try {
+      await mcpClient.disconnectServer(name);
+    } catch (error: any) {
+      console.error('Disconnect error:', error);
+    }
+    setServerRoots(prev => {
+      const next = { ...prev };
+      delete next[name];
+      return next;
+    });
+
+    // Removing the last server ends the session
+    if (mcpClient.getServers().length === 0) {
+      await handleDisconnect();
+      return;
+    }
+
+    await loadServerFeatures(mcpClient);
+    setStatusMessage(`Disconnected from ${name}`);
+  }, [mcpClient, loadServerFeatures, handleDisconnect]);
+
+  // React to notifications sent by the connected servers
+  useEffect(() => {
+    if (!mcpClient) {
+      return;
+    }
+
+    return mcpClient.onNotification((notification) => {
+      switch (notification.type) {
+        case 'tools/list_changed':
+          setTools(notification.tools);
+          llmService?.updateTools(notification.tools);
+          setStatusMessage(`Server tools changed: ${notification.tools.length} tools available`);
+          break;
+
+        case 'resources/updated':
+          // Keep attached copies of the resource current
+          if (!attachments.some(attachment => attachment.resource.uri === notification.uri)) {
+            break;
+          }
+          mcpClient.readResource(notification.uri)
+            .then(contents => setAttachments(prev => prev.map(attachment =>
+              attachment.resource.uri === notification.uri ? { ...attachment, contents } : attachment
+            )))
+            .catch(error => console.warn(`Could not re-read updated resource ${notification.uri}:`, error));
+          break;
+
+        case 'message':
+          logServerMessage(notification.level, notification.logger, notification.data);
+          break;
+
+        default:
+          break;
+      }
+    });
+  }, [mcpClient, llmService, attachments]);
+
+  // Follow connection drops and reconnects of each server
+  useEffect(() => {
+    if (!mcpClient) {
+      return;
+    }
+
+    const unsubscribeServers = mcpClient.onServersChange(setServers);
+    const unsubscribeStatus = mcpClient.onStatusChange((status) => {
+      // The group stays connected while any of its servers is
+      setConnectionStatus(status);
+      setStatusMessage(describeServers(mcpClient.getServers()));
+    });
+
+    return () => {
+      unsubscribeServers();
+      unsubscribeStatus();
+    };
+  }, [mcpClient]);
+
+  // Keep the tool list's approval selects in sync with remembered decisions
+  useEffect(() => {
+    if (!toolApprovalPolicy) {
+      return;
+    }
+
+    setApprovalModes(toolApprovalPolicy.getModes());
+    return toolApprovalPolicy.onChange(setApprovalModes);
+  }, [toolApprovalPolicy]);
+
+  // Let the server sample the configured LLM, one approval dialog per request
+  useEffect(() => {
+    if (!mcpClient || !llmService) {
+      return;
+    }
+
+    const resolvers = samplingResolversRef.current;
+    mcpClient.setSamplingHandler(request => new Promise((resolve, reject) => {
+      const id = uuidv4();
+      resolvers.set(id, { resolve, reject });
+      setSamplingRequests(prev => [...prev, { id, request }]);
+    }));
+
+    return () => {
+      mcpClient.setSamplingHandler(null);
+      // Refuse the requests still waiting for the user
+      resolvers.forEach(({ reject }) => reject(new McpError('Sampling request cancelled', 'USER_REJECTED')));
+      resolvers.clear();
+      setSamplingRequests([]);
+    };
+  }, [mcpClient, llmService]);
+
+  // Settles the request shown in the dialog, which is always the first one
+  const settleSamplingRequest = useCallback((settle: (resolvers: SamplingResolvers) => void) => {
+    const current = samplingRequests[0];
+    if (!current) {
+      return;
+    }
+
+    const resolvers = samplingResolversRef.current.get(current.id);
+    samplingResolversRef.current.delete(current.id);
+    if (resolvers) {
+      settle(resolvers);
+    }
+    setSamplingRequests(prev => prev.filter(pending => pending.id !== current.id));
+  }, [samplingRequests]);
+
+  const handleSamplingApprove = useCallback((result: McpSamplingResult) => {
+    settleSamplingRequest(({ resolve }) => resolve(result));
+  }, [settleSamplingRequest]);
+
+  const handleSamplingReject = useCallback(() => {
+    settleSamplingRequest(({ reject }) => reject(new McpError('User rejected sampling request', 'USER_REJECTED')));
+  }, [settleSamplingRequest]);
+
+  const handleAttachResource = useCallback(async (resource: McpResource) => {
+    if (!mcpClient) {
+      return;
+    }
+
+    const contents = await mcpClient.readResource(resource.uri);
+    setAttachments(prev => [
+      ...prev.filter(attachment => attachment.resource.uri !== resource.uri),
+      { resource, contents }
+    ]);
+  }, [mcpClient]);
+
+  const handleLogLevelChange = useCallback((serverName: string, level: McpLogLevel) => {
+    mcpClient?.getClient(serverName)?.setLogLevel(level).catch((error) => {
+      console.error('Failed to set server log level:', error);
+      setStatusMessage(`Failed to set server log level: ${error.message}`);
+    });
+  }, [mcpClient]);
+
+  const handleRootsChange = useCallback((serverName: string, newRoots: McpRoot[]) => {
+    setServerRoots(prev => ({ ...prev, [serverName]: newRoots }));
+    mcpClient?.setServerRoots(serverName, newRoots).catch((error) => {
+      console.error('Failed to update roots:', error);
+      setStatusMessage(`Failed to update roots: ${error.message}`);
+    });
+  }, [mcpClient]);
+
+  const handleRemoveAttachment = useCallback((uri: string) => {
+    setAttachments(prev => prev.filter(attachment => attachment.resource.uri !== uri));
+  }, []);
+
   const handleLanguageChange = useCallback((language: SupportedLanguage) => {
     setSelectedLanguage(language);
     
@@ -83,6 +378,19 @@ const App: React.FC = () => {
     }
   }, [mcpClient]);
 
+  // Servers that went through the MCP initialize handshake; re-read on each render
+  // because a reconnected server may report new info
+  const serverInfos = servers.flatMap(server => {
+    const info = mcpClient?.getClient(server.name)?.getServerInfo();
+    return info ? [{ name: server.name, info }] : [];
+  });
+
+  // Tools without a mode of their own show the policy's default
+  const toolApprovalModes: Record<string, ToolApprovalMode> = Object.fromEntries(tools.map(tool => [
+    tool.name,
+    approvalModes[tool.name] ?? toolApprovalPolicy?.getMode(tool.name) ?? 'ask'
+  ]));
+
   return (
     <div className="container">
       <header className="header">
@@ -93,22 +401,77 @@ const App: React.FC = () => {
       <ConnectionManager 
         onConnect={handleConnect}
         onDisconnect={handleDisconnect}
+        onAddServer={handleAddServer}
+        onRemoveServer={handleRemoveServer}
+        servers={servers}
         connectionStatus={connectionStatus}
         statusMessage={statusMessage}
         selectedLanguage={selectedLanguage}
         onLanguageChange={handleLanguageChange}
       />
 
-      {connectionStatus === 'connected' && (
+      {/* Keep the chat mounted while reconnecting so the conversation survives */}
+      {(connectionStatus === 'connected' || connectionStatus === 'reconnecting') && (
         <>
-          <ToolsList tools={tools} language={selectedLanguage} />
+          {serverInfos.map(({ name, info }) => (
+            <ServerInfoPanel
+              key={name}
+              serverInfo={info}
+              onLogLevelChange={(level) => handleLogLevelChange(name, level)}
+              language={selectedLanguage}
+            />
+          ))}
+          <ToolsList
+            tools={tools}
+            approvalModes={toolApprovalModes}
+            onApprovalModeChange={(toolName, mode) => toolApprovalPolicy?.setMode(toolName, mode)}
+            language={selectedLanguage}
+          />
+          {mcpClient && (resources.length > 0 || resourceTemplates.length > 0) && (
+            <ResourcesList
+              resources={resources}
+              templates={resourceTemplates}
+              mcpClient={mcpClient}
+              attachedUris={attachments.map(attachment => attachment.resource.uri)}
+              canSubscribe={serverInfos.some(({ info }) => info.capabilities.resources?.subscribe)}
+              onAttach={handleAttachResource}
+              language={selectedLanguage}
+            />
+          )}
+          {servers.filter(server => serverTypeUsesMcpProtocol(server.type)).map(server => (
+            <RootsManager
+              key={server.name}
+              serverName={server.name}
+              roots={serverRoots[server.name] || []}
+              onChange={(newRoots) => handleRootsChange(server.name, newRoots)}
+              language={selectedLanguage}
+            />
+          ))}
           <ChatInterface 
             llmService={llmService}
             mcpClient={mcpClient}
             language={selectedLanguage}
+            prompts={prompts}
+            attachments={attachments}
+            onRemoveAttachment={handleRemoveAttachment}
+            onAttachmentsSent={() => setAttachments([])}
+            toolApprovalPolicy={toolApprovalPolicy}
+            backgroundCompletions={samplingCompletions}
           />
         </>
       )}
+
+      {samplingRequests.length > 0 && llmService && (
+        <SamplingApprovalDialog
+          key={samplingRequests[0].id}
+          request={samplingRequests[0].request}
+          llmService={llmService}
+          onApprove={handleSamplingApprove}
+          onReject={handleSamplingReject}
+          onCompletion={(completion) => setSamplingCompletions(prev => [...prev, completion])}
+          language={selectedLanguage}
+        />
+      )}
     </div>
   );
 };
@@ -2,14 +2,34 @@ import React, { useState, useRef, useEffect } from "react";
 import { v4 as uuidv4 } from "uuid";
 import ReactMarkdown from "react-markdown";
 import rehypeHighlight from "rehype-highlight";
-import { ChatInterfaceProps, ChatMessage } from "../types";
+import {
+  ChatInterfaceProps,
+  ChatMessage,
+  LLMUsageTotal,
+  McpPrompt,
+  ToolApprovalDecision,
+  ToolApprovalRequest,
+} from "../types";
 import { getTranslation } from "../config/languages";
+import { buildMessageWithAttachments } from "../utils/resources";
+import { promptMessagesToHistory } from "../utils/prompts";
+import { formatCost, sumTurnUsage } from "../utils/usage";
+import PromptForm from "./PromptForm";
+import ToolApprovalCard from "./ToolApprovalCard";
+import ToolCallCard from "./ToolCallCard";
 
 import "highlight.js/styles/github.css";
 
 const ChatInterface: React.FC<ChatInterfaceProps> = ({
   llmService,
+  mcpClient,
   language = "en",
+  prompts = [],
+  attachments = [],
+  onRemoveAttachment,
+  onAttachmentsSent,
+  toolApprovalPolicy,
+  backgroundCompletions = [],
 }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([
     {
@@ -21,7 +41,21 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   ]);
   const [inputValue, setInputValue] = useState<string>("");
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [activePrompt, setActivePrompt] = useState<McpPrompt | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<
+    ToolApprovalRequest[]
+  >([]);
+  const approvalResolversRef = useRef(
+    new Map<
+      string,
+      {
+        request: ToolApprovalRequest;
+        resolve: (decision: ToolApprovalDecision) => void;
+      }
+    >()
+  );
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -31,27 +65,93 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     scrollToBottom();
   }, [messages]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // Stop a running request when the chat goes away, e.g. on disconnect
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      denyPendingApprovals();
+    };
+  }, []);
 
-    if (!inputValue.trim() || isLoading || !llmService) {
+  // Cards of a tool whose mode was just fixed, e.g. by "Remember for this
+  // session" on another card of the same tool, are answered by that mode
+  useEffect(() => {
+    if (!toolApprovalPolicy) {
+      return;
+    }
+    return toolApprovalPolicy.onChange(() => {
+      approvalResolversRef.current.forEach(({ request }, callId) => {
+        const mode = toolApprovalPolicy.getMode(request.toolName);
+        if (mode !== "ask") {
+          handleApprovalDecision(
+            callId,
+            mode === "allow"
+              ? { approved: true, arguments: request.arguments }
+              : { approved: false }
+          );
+        }
+      });
+    });
+  }, [toolApprovalPolicy]);
+
+  // Shows a confirmation card and waits for the user's decision
+  const requestApproval = (request: ToolApprovalRequest) =>
+    new Promise<ToolApprovalDecision>((resolve) => {
+      approvalResolversRef.current.set(request.callId, { request, resolve });
+      setPendingApprovals((prev) => [...prev, request]);
+    });
+
+  const handleApprovalDecision = (
+    callId: string,
+    decision: ToolApprovalDecision
+  ) => {
+    approvalResolversRef.current.get(callId)?.resolve(decision);
+    approvalResolversRef.current.delete(callId);
+    setPendingApprovals((prev) =>
+      prev.filter((request) => request.callId !== callId)
+    );
+  };
+
+  const denyPendingApprovals = () => {
+    approvalResolversRef.current.forEach(({ resolve }) =>
+      resolve({ approved: false })
+    );
+    approvalResolversRef.current.clear();
+    setPendingApprovals([]);
+  };
+
+  const sendMessage = async (content: string) => {
+    if (!llmService) {
       return;
     }
 
     const userMessage: ChatMessage = {
       id: uuidv4(),
       type: "user",
-      content: inputValue.trim(),
+      content,
       timestamp: new Date(),
+      ...(attachments.length > 0 && {
+        attachments: attachments.map((attachment) => attachment.resource),
+      }),
     };
 
+    // Attached resources are sent to the LLM as context ahead of the message
+    const llmMessage = buildMessageWithAttachments(
+      userMessage.content,
+      attachments
+    );
+
     setMessages((prev) => [...prev, userMessage]);
-    setInputValue("");
+    onAttachmentsSent?.();
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+
+    // Add a placeholder for the assistant message
+    const assistantMessageId = uuidv4();
+
     try {
-      // Add a placeholder for the assistant message
-      const assistantMessageId = uuidv4();
       setMessages((prev) => [
         ...prev,
         {
@@ -62,35 +162,260 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
         },
       ]);
 
-      // Stream the response
-      const response = await llmService.sendMessage(userMessage.content);
+      // Stream the response into the placeholder as it is generated
+      const result = await llmService.streamMessage(
+        llmMessage,
+        (delta) => {
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === assistantMessageId
+                ? { ...msg, content: msg.content + delta }
+                : msg
+            )
+          );
+        },
+        {
+          signal: abortController.signal,
+          // Record each tool call and its outcome for the tool call cards
+          onToolCallStart: (call) => {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessageId
+                  ? { ...msg, toolCalls: [...(msg.toolCalls || []), call] }
+                  : msg
+              )
+            );
+          },
+          onToolCallEnd: (result) => {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      toolResults: [...(msg.toolResults || []), result],
+                    }
+                  : msg
+              )
+            );
+          },
+          ...(toolApprovalPolicy && {
+            approveToolCall: toolApprovalPolicy.createHandler(requestApproval),
+          }),
+          // Show the latest progress of each running tool call
+          onToolProgress: (event) => {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === assistantMessageId
+                  ? {
+                      ...msg,
+                      toolProgress: [
+                        ...(msg.toolProgress || []).filter(
+                          (progress) => progress.callId !== event.callId
+                        ),
+                        event,
+                      ],
+                    }
+                  : msg
+              )
+            );
+          },
+        }
+      );
 
-      // Update the assistant message with the response
+      // Keep the turn result, and fall back to its text if nothing was streamed
       setMessages((prev) =>
         prev.map((msg) =>
-          msg.id === assistantMessageId ? { ...msg, content: response } : msg
+          msg.id === assistantMessageId
+            ? { ...msg, content: msg.content || result.text, llmResult: result }
+            : msg
         )
       );
     } catch (error: any) {
-      console.error("Chat error:", error);
+      const stopped = abortController.signal.aborted;
+      if (!stopped) {
+        console.error("Chat error:", error);
+      }
       setMessages((prev) => [
         ...prev,
         {
           id: uuidv4(),
           type: "system",
-          content: `Error: ${error.message}`,
+          content: stopped
+            ? getTranslation(language, "responseStopped")
+            : `Error: ${error.message}`,
           timestamp: new Date(),
+          // Tokens spent before the turn failed or was stopped still count
+          llmResult: error.turnResult,
         },
       ]);
     } finally {
+      // Progress bars are only shown while the response is generated, and
+      // calls still running when the response was stopped never finish
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === assistantMessageId
+            ? {
+                ...msg,
+                toolProgress: undefined,
+                toolResults: [
+                  ...(msg.toolResults || []),
+                  ...(msg.toolCalls || [])
+                    .filter(
+                      (call) =>
+                        !msg.toolResults?.some(
+                          (result) => result.callId === call.id
+                        )
+                    )
+                    .map((call) => ({
+                      callId: call.id,
+                      success: false,
+                      error: getTranslation(language, "toolCallCancelled"),
+                    })),
+                ],
+              }
+            : msg
+        )
+      );
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  // Cancels the LLM request and any tool call it is waiting for
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+    denyPendingApprovals();
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!inputValue.trim() || isLoading || !llmService) {
+      return;
+    }
+
+    // Typing the full name of a prompt selects it instead of sending the text
+    const typedPrompt = prompts.find(
+      (prompt) => `/${prompt.name}` === inputValue.trim()
+    );
+    if (typedPrompt) {
+      handleSelectPrompt(typedPrompt);
+      return;
+    }
+
+    setInputValue("");
+    await sendMessage(inputValue.trim());
+  };
+
+  const handleSelectPrompt = (prompt: McpPrompt) => {
+    setInputValue("");
+    if (prompt.arguments && prompt.arguments.length > 0) {
+      setActivePrompt(prompt);
+    } else {
+      runPrompt(prompt, {});
+    }
+  };
+
+  const runPrompt = async (prompt: McpPrompt, args: Record<string, string>) => {
+    setActivePrompt(null);
+
+    if (!mcpClient || !llmService || isLoading) {
+      return;
+    }
+
+    try {
+      const result = await mcpClient.getPrompt(prompt.name, args);
+      const promptMessages = promptMessagesToHistory(result.messages);
+
+      // A trailing user message is sent like a typed one so the LLM answers it;
+      // the messages before it only become part of the conversation
+      const lastMessage = promptMessages[promptMessages.length - 1];
+      const pendingMessage =
+        lastMessage?.role === "user" ? lastMessage : undefined;
+      const contextMessages = pendingMessage
+        ? promptMessages.slice(0, -1)
+        : promptMessages;
+
+      llmService.addToHistory(contextMessages);
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: uuidv4(),
+          type: "system",
+          content: getTranslation(language, "usingPrompt", {
+            name: prompt.name,
+          }),
+          timestamp: new Date(),
+        },
+        ...contextMessages.map((message): ChatMessage => ({
+          id: uuidv4(),
+          type: message.role,
+          content: message.content,
+          timestamp: new Date(),
+        })),
+      ]);
+
+      if (pendingMessage) {
+        await sendMessage(pendingMessage.content);
+      }
+    } catch (error: any) {
+      console.error("Prompt error:", error);
+      setMessages((prev) => [
+        ...prev,
+        {
+          id: uuidv4(),
+          type: "system",
+          content: `Error: ${error.message}`,
+          timestamp: new Date(),
+        },
+      ]);
+    }
+  };
+
+  // Typing "/" opens a menu of the server's prompts
+  const promptQuery =
+    inputValue.startsWith("/") && !activePrompt
+      ? inputValue.slice(1).trim().toLowerCase()
+      : null;
+  const matchingPrompts =
+    promptQuery === null
+      ? []
+      : prompts.filter((prompt) =>
+          prompt.name.toLowerCase().includes(promptQuery)
+        );
+
+  // Hide the assistant placeholder until the first tokens or tool calls arrive
+  const visibleMessages = messages.filter(
+    (message) =>
+      message.type !== "assistant" ||
+      message.content ||
+      message.toolProgress ||
+      message.toolCalls
+  );
+
   const formatTimestamp = (timestamp: Date): string => {
     return timestamp.toLocaleTimeString();
   };
 
+  const formatUsage = (usage: LLMUsageTotal): string => {
+    const tokens = getTranslation(language, "tokenUsage", {
+      input: usage.inputTokens.toLocaleString(),
+      output: usage.outputTokens.toLocaleString(),
+    });
+    return usage.cost !== undefined
+      ? `${tokens} · ${formatCost(usage.cost)}`
+      : tokens;
+  };
+
+  // Running total of every turn in this chat and of the completions made
+  // outside it, such as sampling requests
+  const sessionUsage = sumTurnUsage([
+    ...messages.flatMap((message) =>
+      message.llmResult ? [message.llmResult] : []
+    ),
+    ...backgroundCompletions,
+  ]);
+
   return (
     <div className="chat-section">
       <div className="chat-header">
@@ -98,8 +423,31 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
       </div>
 
       <div className="chat-messages">
-        {messages.map((message) => (
+        {visibleMessages.map((message) => (
           <div key={message.id} className={`message ${message.type}`}>
+            {message.toolCalls?.map((call) => (
+              <ToolCallCard
+                key={call.id}
+                call={call}
+                result={message.toolResults?.find(
+                  (result) => result.callId === call.id
+                )}
+                language={language}
+              />
+            ))}
+            {message.llmResult?.compaction && (
+              <div className="context-compacted">
+                {getTranslation(
+                  language,
+                  message.llmResult.compaction.summarized
+                    ? "historySummarized"
+                    : "historyTrimmed",
+                  {
+                    count: String(message.llmResult.compaction.droppedMessages),
+                  }
+                )}
+              </div>
+            )}
             <div className="message-content">
               {message.type === "assistant" ? (
                 <ReactMarkdown
@@ -252,6 +600,35 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 message.content
               )}
             </div>
+            {message.toolProgress?.map((progress) => (
+              <div key={progress.callId} className="tool-progress">
+                <div className="tool-progress-label">
+                  {progress.toolName}
+                  {progress.message && `: ${progress.message}`}
+                  {progress.total
+                    ? ` (${Math.round((progress.progress / progress.total) * 100)}%)`
+                    : ""}
+                </div>
+                {/* Without a total the bar is shown as indeterminate */}
+                <progress
+                  max={progress.total || 1}
+                  value={progress.total ? progress.progress : undefined}
+                />
+              </div>
+            ))}
+            {message.attachments && (
+              <div className="message-attachments">
+                {message.attachments.map((resource) => (
+                  <span
+                    key={resource.uri}
+                    className="attachment-chip"
+                    title={resource.uri}
+                  >
+                    📎 {resource.name}
+                  </span>
+                ))}
+              </div>
+            )}
             <div
               className="message-time"
               style={{
@@ -261,34 +638,122 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
               }}
             >
               {formatTimestamp(message.timestamp)}
+              {message.llmResult?.usage &&
+                ` · ${formatUsage(sumTurnUsage([message.llmResult]))}`}
             </div>
           </div>
         ))}
-        {isLoading && (
-          <div className="message assistant">
-            <span className="loading"></span> LLM is thinking...
-          </div>
-        )}
+        {pendingApprovals.map((request) => (
+          <ToolApprovalCard
+            key={request.callId}
+            request={request}
+            onDecision={(decision) =>
+              handleApprovalDecision(request.callId, decision)
+            }
+            language={language}
+          />
+        ))}
+        {isLoading &&
+          pendingApprovals.length === 0 &&
+          !messages[messages.length - 1]?.content &&
+          !messages[messages.length - 1]?.toolProgress &&
+          !messages[messages.length - 1]?.toolCalls && (
+            <div className="message assistant">
+              <span className="loading"></span> LLM is thinking...
+            </div>
+          )}
         <div ref={messagesEndRef} />
       </div>
 
+      {sessionUsage.inputTokens + sessionUsage.outputTokens > 0 && (
+        <div className="usage-footer">
+          {getTranslation(language, "sessionUsage")}:{" "}
+          {formatUsage(sessionUsage)}
+        </div>
+      )}
+
       <div className="chat-input">
+        {attachments.length > 0 && (
+          <div className="pending-attachments">
+            <span>{getTranslation(language, "attachedToNextMessage")}:</span>
+            {attachments.map(({ resource }) => (
+              <span
+                key={resource.uri}
+                className="attachment-chip"
+                title={resource.uri}
+              >
+                📎 {resource.name}
+                {onRemoveAttachment && (
+                  <button
+                    type="button"
+                    onClick={() => onRemoveAttachment(resource.uri)}
+                    aria-label={`Remove ${resource.name}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
+        {activePrompt && (
+          <PromptForm
+            prompt={activePrompt}
+            onSubmit={(args) => runPrompt(activePrompt, args)}
+            onCancel={() => setActivePrompt(null)}
+            language={language}
+          />
+        )}
+        {promptQuery !== null && prompts.length > 0 && (
+          <div className="prompt-menu">
+            {matchingPrompts.length === 0 ? (
+              <div className="prompt-menu-empty">
+                {getTranslation(language, "noMatchingPrompts")}
+              </div>
+            ) : (
+              matchingPrompts.map((prompt) => (
+                <button
+                  key={prompt.name}
+                  type="button"
+                  className="prompt-menu-item"
+                  onClick={() => handleSelectPrompt(prompt)}
+                >
+                  <strong>/{prompt.name}</strong>
+                  {prompt.description && <span>{prompt.description}</span>}
+                </button>
+              ))
+            )}
+          </div>
+        )}
         <form onSubmit={handleSubmit}>
           <div className="input-container">
             <input
               type="text"
               value={inputValue}
               onChange={(e) => setInputValue(e.target.value)}
-              placeholder={getTranslation(language, "typeMessage")}
+              placeholder={getTranslation(
+                language,
+                prompts.length > 0 ? "typeMessageOrPrompt" : "typeMessage"
+              )}
               disabled={isLoading}
             />
-            <button
-              type="submit"
-              className="btn"
-              disabled={isLoading || !inputValue.trim()}
-            >
-              {getTranslation(language, "send")}
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                className="btn btn-stop"
+                onClick={handleStop}
+              >
+                {getTranslation(language, "stop")}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="btn"
+                disabled={!inputValue.trim()}
+              >
+                {getTranslation(language, "send")}
+              </button>
+            )}
           </div>
         </form>
       </div>
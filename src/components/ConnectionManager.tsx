@@ -4,13 +4,23 @@ import {
   McpServerConfig,
   LLMConfig,
   LLMProvider,
+  McpServerType,
   SupportedLanguage,
 } from "../types";
 import { SUPPORTED_LANGUAGES, getTranslation } from "../config/languages";
+import {
+  DEFAULT_SERVER_URLS,
+  getDefaultServerUrl,
+  serverTypeUsesUrl,
+  validateServerUrl,
+} from "../config/servers";
 
 const ConnectionManager: React.FC<ConnectionManagerProps> = ({
   onConnect,
   onDisconnect,
+  onAddServer,
+  onRemoveServer,
+  servers,
   connectionStatus,
   statusMessage,
   selectedLanguage = "en",
@@ -28,8 +38,10 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
     }
   };
 
-  const [serverType, setServerType] = useState<"stdio" | "websocket" | "http">(
-    "http"
+  const [serverName, setServerName] = useState<string>("");
+  const [serverType, setServerType] = useState<McpServerType>("http");
+  const [serverUrl, setServerUrl] = useState<string>(
+    getDefaultServerUrl("http")
   );
   const [serverCommand, setServerCommand] = useState<string>(
     import.meta.env.VITE_DEFAULT_SERVER_COMMAND || ""
@@ -61,6 +73,7 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
   };
 
   const [model, setModel] = useState<string>(getInitialModel());
+  const [isAddingServer, setIsAddingServer] = useState<boolean>(false);
 
   const handleProviderChange = (provider: LLMProvider) => {
     setLlmProvider(provider);
@@ -86,45 +99,92 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
     }
   };
 
-  const handleConnect = (e: React.FormEvent) => {
+  // The stdio bridge URL comes from the environment rather than the form
+  const showServerUrl = serverType !== "stdio" && serverTypeUsesUrl(serverType);
+
+  const handleServerTypeChange = (type: McpServerType) => {
+    setServerType(type);
+    // Pre-fill the default URL for the new transport
+    setServerUrl(getDefaultServerUrl(type));
+  };
+
+  const handleConnect = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Check if we have an API key (either from input or environment)
     const effectiveApiKey = apiKey.trim() || getEnvApiKey(llmProvider);
-    if (llmProvider !== "ollama" && !effectiveApiKey) {
+    if (!isActive && llmProvider !== "ollama" && !effectiveApiKey) {
       alert(
         `Please enter your ${llmProvider.toUpperCase()} API key or set the VITE_${llmProvider.toUpperCase()}_API_KEY environment variable`
       );
       return;
     }
 
-    if (!serverCommand.trim()) {
+    if (serverType === "stdio" && !serverCommand.trim()) {
       alert("Please enter the server command");
       return;
     }
 
+    let validatedUrl: string | undefined;
+    if (showServerUrl) {
+      try {
+        validatedUrl = validateServerUrl(serverUrl, serverType);
+      } catch (error: any) {
+        alert(error.message);
+        return;
+      }
+    }
+
     const serverConfig: McpServerConfig = {
       type: serverType,
+      ...(serverName.trim() && { name: serverName.trim() }),
       command: serverCommand,
       arguments: serverArgs.split(" ").filter((arg) => arg.trim()),
+      ...(validatedUrl && { url: validatedUrl }),
     };
 
+    // While connected the form adds another server to the same session
+    if (isActive) {
+      setIsAddingServer(true);
+      try {
+        await onAddServer(serverConfig);
+        setServerName("");
+      } finally {
+        setIsAddingServer(false);
+      }
+      return;
+    }
+
+    // Optional context window settings, see "Long Conversations" in the README
+    const contextWindow = Number(import.meta.env.VITE_CONTEXT_WINDOW);
+    const contextStrategy = import.meta.env.VITE_CONTEXT_STRATEGY;
+
     const llmConfig: LLMConfig = {
       provider: llmProvider,
       model,
       maxTokens: 2000,
       ...(llmProvider !== "ollama" && { apiKey: effectiveApiKey }),
       ...(llmProvider === "ollama" && { baseUrl }),
+      ...(Number.isInteger(contextWindow) &&
+        contextWindow > 0 && { contextWindow }),
+      ...((contextStrategy === "trim" || contextStrategy === "summarize") && {
+        contextStrategy,
+      }),
     };
 
     onConnect(serverConfig, llmConfig);
   };
 
+  // A reconnecting client is still in use, so its settings stay locked
+  const isActive =
+    connectionStatus === "connected" || connectionStatus === "reconnecting";
+
   const getStatusClass = (): string => {
     switch (connectionStatus) {
       case "connected":
         return "status success";
       case "connecting":
+      case "reconnecting":
         return "status info";
       case "error":
         return "status error";
@@ -168,6 +228,32 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
 
       {statusMessage && <div className={getStatusClass()}>{statusMessage}</div>}
 
+      {servers.length > 0 && (
+        <div className="server-list">
+          <h3>{getTranslation(selectedLanguage, "connectedServers")}</h3>
+          {servers.map((server) => (
+            <div key={server.name} className="server-list-item">
+              <span className={`server-status-dot ${server.status}`}></span>
+              <strong>{server.name}</strong>
+              <span className="server-list-details">
+                {server.type} ·{" "}
+                {getTranslation(selectedLanguage, "toolCount", {
+                  count: String(server.toolCount),
+                })}{" "}
+                · {server.status}
+              </span>
+              <button
+                type="button"
+                className="btn btn-small btn-secondary"
+                onClick={() => onRemoveServer(server.name)}
+              >
+                {getTranslation(selectedLanguage, "removeServer")}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <form onSubmit={handleConnect}>
         {/* LLM Provider Selection */}
         <div className="form-group">
@@ -180,7 +266,7 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
             onChange={(e) =>
               handleProviderChange(e.target.value as LLMProvider)
             }
-            disabled={connectionStatus === "connected"}
+            disabled={isActive}
           >
             <option value="anthropic">Anthropic (Claude)</option>
             <option value="openai">OpenAI (GPT)</option>
@@ -215,7 +301,7 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
             id="model"
             value={model}
             onChange={(e) => setModel(e.target.value)}
-            disabled={connectionStatus === "connected"}
+            disabled={isActive}
           >
             {getModelOptions().map((option) => (
               <option key={option.value} value={option.value}>
@@ -248,7 +334,7 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
                   ? `Environment key loaded - override if needed`
                   : `Enter your ${llmProvider.toUpperCase()} API key`
               }
-              disabled={connectionStatus === "connected"}
+              disabled={isActive}
             />
             {getEnvApiKey(llmProvider) && !apiKey && (
               <small style={{ color: "#666", fontSize: "11px" }}>
@@ -269,53 +355,84 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
               value={baseUrl}
               onChange={(e) => setBaseUrl(e.target.value)}
               placeholder="http://localhost:11434"
-              disabled={connectionStatus === "connected"}
+              disabled={isActive}
             />
           </div>
         )}
 
         {/* MCP Server Configuration */}
+        <div className="form-group">
+          <label htmlFor="server-name">
+            {getTranslation(selectedLanguage, "serverLabel")}:
+          </label>
+          <input
+            id="server-name"
+            type="text"
+            value={serverName}
+            onChange={(e) => setServerName(e.target.value)}
+            placeholder={`e.g., cats, filesystem (defaults to "${serverType}")`}
+          />
+        </div>
+
         <div className="form-group">
           <label htmlFor="server-type">MCP Server Type:</label>
           <select
             id="server-type"
             value={serverType}
             onChange={(e) =>
-              setServerType(e.target.value as "stdio" | "websocket" | "http")
+              handleServerTypeChange(e.target.value as McpServerType)
             }
-            disabled={connectionStatus === "connected"}
           >
-            <option value="stdio">Stdio</option>
+            <option value="stdio">Stdio (via local bridge)</option>
             <option value="websocket">WebSocket</option>
             <option value="http">HTTP REST API</option>
+            <option value="streamable-http">Streamable HTTP (MCP)</option>
+            <option value="mock">Mock / Demo</option>
           </select>
         </div>
 
-        <div className="form-group">
-          <label htmlFor="server-command">Server Command:</label>
-          <input
-            id="server-command"
-            type="text"
-            value={serverCommand}
-            onChange={(e) => setServerCommand(e.target.value)}
-            placeholder="e.g., python, node, dotnet"
-            disabled={connectionStatus === "connected"}
-          />
-        </div>
+        {/* Server URL (for HTTP and WebSocket servers) */}
+        {showServerUrl && (
+          <div className="form-group">
+            <label htmlFor="server-url">Server URL:</label>
+            <input
+              id="server-url"
+              type="url"
+              value={serverUrl}
+              onChange={(e) => setServerUrl(e.target.value)}
+              placeholder={`e.g., ${DEFAULT_SERVER_URLS[serverType]}`}
+            />
+          </div>
+        )}
 
-        <div className="form-group">
-          <label htmlFor="server-args">Server Arguments:</label>
-          <input
-            id="server-args"
-            type="text"
-            value={serverArgs}
-            onChange={(e) => setServerArgs(e.target.value)}
-            placeholder="e.g., server.py or run --project ../server"
-            disabled={connectionStatus === "connected"}
-          />
-        </div>
+        {/* Command and arguments (stdio servers, or to pick the mock tool set) */}
+        {(serverType === "stdio" || serverType === "mock") && (
+          <>
+            <div className="form-group">
+              <label htmlFor="server-command">Server Command:</label>
+              <input
+                id="server-command"
+                type="text"
+                value={serverCommand}
+                onChange={(e) => setServerCommand(e.target.value)}
+                placeholder="e.g., python, node, dotnet"
+              />
+            </div>
 
-        {connectionStatus !== "connected" ? (
+            <div className="form-group">
+              <label htmlFor="server-args">Server Arguments:</label>
+              <input
+                id="server-args"
+                type="text"
+                value={serverArgs}
+                onChange={(e) => setServerArgs(e.target.value)}
+                placeholder="e.g., server.py or run --project ../server"
+              />
+            </div>
+          </>
+        )}
+
+        {!isActive ? (
           <button
             type="submit"
             className="btn"
@@ -331,9 +448,21 @@ const ConnectionManager: React.FC<ConnectionManagerProps> = ({
             )}
           </button>
         ) : (
-          <button type="button" className="btn" onClick={onDisconnect}>
-            {getTranslation(selectedLanguage, "disconnect")}
-          </button>
+          <div className="connection-actions">
+            <button type="submit" className="btn" disabled={isAddingServer}>
+              {isAddingServer ? (
+                <>
+                  <span className="loading"></span>{" "}
+                  {getTranslation(selectedLanguage, "connecting")}
+                </>
+              ) : (
+                getTranslation(selectedLanguage, "addServer")
+              )}
+            </button>
+            <button type="button" className="btn" onClick={onDisconnect}>
+              {getTranslation(selectedLanguage, "disconnect")}
+            </button>
+          </div>
         )}
       </form>
     </div>
@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import { PromptFormProps } from '../types';
+import { getTranslation } from '../config/languages';
+
+const PromptForm: React.FC<PromptFormProps> = ({ prompt, onSubmit, onCancel, language = 'en' }) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+  const promptArguments = prompt.arguments || [];
+  const missingRequired = promptArguments.some(argument => argument.required && !values[argument.name]?.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (missingRequired) {
+      return;
+    }
+
+    // Optional arguments left empty are not sent to the server
+    const args = Object.fromEntries(
+      Object.entries(values)
+        .map(([name, value]) => [name, value.trim()])
+        .filter(([, value]) => value !== '')
+    );
+    onSubmit(args);
+  };
+
+  return (
+    <form className="prompt-form" onSubmit={handleSubmit}>
+      <h4>/{prompt.name}</h4>
+      {prompt.description && <p>{prompt.description}</p>}
+
+      {promptArguments.map(argument => (
+        <div key={argument.name} className="form-group">
+          <label htmlFor={`prompt-arg-${argument.name}`}>
+            {argument.name}{argument.required && ' *'}
+          </label>
+          <input
+            id={`prompt-arg-${argument.name}`}
+            type="text"
+            value={values[argument.name] || ''}
+            onChange={(e) => setValues(prev => ({ ...prev, [argument.name]: e.target.value }))}
+            placeholder={argument.description}
+          />
+        </div>
+      ))}
+
+      <div className="prompt-form-actions">
+        <button type="submit" className="btn btn-small" disabled={missingRequired}>
+          {getTranslation(language, 'usePrompt')}
+        </button>
+        <button type="button" className="btn btn-small btn-secondary" onClick={onCancel}>
+          {getTranslation(language, 'cancel')}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default PromptForm;
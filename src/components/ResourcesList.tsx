@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { McpResource, McpResourceTemplate, ResourcesListProps } from '../types';
+import { getTranslation } from '../config/languages';
+
+const ResourcesList: React.FC<ResourcesListProps> = ({
+  resources,
+  templates,
+  mcpClient,
+  attachedUris,
+  canSubscribe,
+  onAttach,
+  language = 'en'
+}) => {
+  const [subscribedUris, setSubscribedUris] = useState<string[]>([]);
+  const [templateUris, setTemplateUris] = useState<Record<string, string>>({});
+  const [pendingUri, setPendingUri] = useState<string | null>(null);
+  const [error, setError] = useState<string>('');
+
+  const handleAttach = async (resource: McpResource) => {
+    setPendingUri(resource.uri);
+    setError('');
+    try {
+      await onAttach(resource);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setPendingUri(null);
+    }
+  };
+
+  const handleSubscribe = async (uri: string) => {
+    setError('');
+    try {
+      await mcpClient.subscribeResource(uri);
+      setSubscribedUris(prev => [...prev, uri]);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  // Templates are attached by reading the URI the user filled in from the template
+  const handleAttachTemplate = (template: McpResourceTemplate) => {
+    const uri = (templateUris[template.uriTemplate] ?? template.uriTemplate).trim();
+    void handleAttach({
+      uri,
+      name: template.name,
+      description: template.description,
+      mimeType: template.mimeType
+    });
+  };
+
+  return (
+    <div className="tools-section">
+      <h2>{getTranslation(language, 'availableResources')} ({resources.length})</h2>
+      {error && <div className="status error">{error}</div>}
+
+      <div className="tools-list">
+        {resources.map(resource => (
+          <div key={resource.uri} className="tool-card">
+            <h4>{resource.name}</h4>
+            <p>{resource.description || 'No description available'}</p>
+            <div className="resource-uri">{resource.uri}</div>
+            <div className="resource-actions">
+              <button
+                type="button"
+                className="btn btn-small"
+                onClick={() => handleAttach(resource)}
+                disabled={attachedUris.includes(resource.uri) || pendingUri === resource.uri}
+              >
+                {getTranslation(language, attachedUris.includes(resource.uri) ? 'attached' : 'attach')}
+              </button>
+              {canSubscribe && (
+                <button
+                  type="button"
+                  className="btn btn-small btn-secondary"
+                  onClick={() => handleSubscribe(resource.uri)}
+                  disabled={subscribedUris.includes(resource.uri)}
+                >
+                  {getTranslation(language, subscribedUris.includes(resource.uri) ? 'subscribed' : 'subscribe')}
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {templates.length > 0 && (
+        <>
+          <h3 style={{ marginTop: '1.5rem' }}>{getTranslation(language, 'resourceTemplates')} ({templates.length})</h3>
+          <div className="tools-list">
+            {templates.map(template => {
+              const uri = templateUris[template.uriTemplate] ?? template.uriTemplate;
+              return (
+                <div key={template.uriTemplate} className="tool-card">
+                  <h4>{template.name}</h4>
+                  <p>{template.description || 'No description available'}</p>
+                  <input
+                    type="text"
+                    className="resource-template-input"
+                    value={uri}
+                    onChange={(e) => setTemplateUris(prev => ({ ...prev, [template.uriTemplate]: e.target.value }))}
+                  />
+                  <div className="resource-actions">
+                    <button
+                      type="button"
+                      className="btn btn-small"
+                      onClick={() => handleAttachTemplate(template)}
+                      disabled={!uri.trim() || attachedUris.includes(uri.trim()) || pendingUri === uri.trim()}
+                    >
+                      {getTranslation(language, attachedUris.includes(uri.trim()) ? 'attached' : 'attach')}
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ResourcesList;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { RootsManagerProps } from '../types';
+import { getTranslation } from '../config/languages';
+
+const RootsManager: React.FC<RootsManagerProps> = ({ serverName, roots, onChange, language = 'en' }) => {
+  const [name, setName] = useState<string>('');
+  const [uri, setUri] = useState<string>('');
+  const [error, setError] = useState<string>('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmedUri = uri.trim();
+    // MCP only allows file:// URIs as roots
+    if (!trimmedUri.startsWith('file://')) {
+      setError(getTranslation(language, 'invalidRootUri'));
+      return;
+    }
+    if (roots.some(root => root.uri === trimmedUri)) {
+      setError(getTranslation(language, 'duplicateRoot'));
+      return;
+    }
+
+    setError('');
+    onChange([...roots, { uri: trimmedUri, ...(name.trim() && { name: name.trim() }) }]);
+    setName('');
+    setUri('');
+  };
+
+  return (
+    <div className="tools-section">
+      <h2>{getTranslation(language, 'roots')}: {serverName} ({roots.length})</h2>
+      <p className="section-description">{getTranslation(language, 'rootsDescription')}</p>
+
+      {roots.length > 0 && (
+        <ul className="roots-list">
+          {roots.map(root => (
+            <li key={root.uri}>
+              <div>
+                {root.name && <strong>{root.name}</strong>}
+                <span className="resource-uri">{root.uri}</span>
+              </div>
+              <button
+                type="button"
+                className="btn btn-small btn-secondary"
+                onClick={() => onChange(roots.filter(other => other.uri !== root.uri))}
+              >
+                {getTranslation(language, 'remove')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <div className="status error">{error}</div>}
+
+      <form className="roots-form" onSubmit={handleAdd}>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={getTranslation(language, 'rootName')}
+        />
+        <input
+          type="text"
+          value={uri}
+          onChange={(e) => setUri(e.target.value)}
+          placeholder="file:///home/user/project"
+        />
+        <button type="submit" className="btn btn-small" disabled={!uri.trim()}>
+          {getTranslation(language, 'addRoot')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default RootsManager;
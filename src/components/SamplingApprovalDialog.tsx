@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { LLMCompletion, SamplingApprovalDialogProps } from '../types';
+import { getTranslation } from '../config/languages';
+import { toCompletionRequest, toSamplingResult } from '../utils/sampling';
+
+/**
+ * Asks the user to approve a server's sampling request. The request is only sent
+ * to the LLM after approval, and the reply can be reviewed and edited before it
+ * goes back to the server.
+ */
+const SamplingApprovalDialog: React.FC<SamplingApprovalDialogProps> = ({
+  request,
+  llmService,
+  onApprove,
+  onReject,
+  onCompletion,
+  language = 'en'
+}) => {
+  const [completion, setCompletion] = useState<LLMCompletion | null>(null);
+  const [replyText, setReplyText] = useState<string>('');
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const modelHints = (request.modelPreferences?.hints || [])
+    .map(hint => hint.name)
+    .filter(Boolean);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError('');
+    try {
+      const result = await llmService.complete(toCompletionRequest(request));
+      onCompletion?.(result);
+      setCompletion(result);
+      setReplyText(result.text);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSend = () => {
+    if (completion) {
+      onApprove(toSamplingResult({ ...completion, text: replyText }));
+    }
+  };
+
+  return (
+    <div className="modal-overlay">
+      <div className="modal" role="dialog" aria-modal="true" aria-labelledby="sampling-dialog-title">
+        <h2 id="sampling-dialog-title">{getTranslation(language, 'samplingRequest')}</h2>
+        <p>{getTranslation(language, 'samplingRequestDescription')}</p>
+
+        <div className="sampling-messages">
+          {request.systemPrompt && (
+            <div className="sampling-message">
+              <strong>system</strong>
+              <div>{request.systemPrompt}</div>
+            </div>
+          )}
+          {request.messages.map((message, index) => (
+            <div key={index} className="sampling-message">
+              <strong>{message.role}</strong>
+              <div>
+                {message.content.type === 'text' ? message.content.text : `[Image: ${message.content.mimeType}]`}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="sampling-meta">
+          {getTranslation(language, 'maxTokens')}: {request.maxTokens}
+          {modelHints.length > 0 && ` · ${getTranslation(language, 'modelHints')}: ${modelHints.join(', ')}`}
+        </div>
+
+        {error && <div className="status error">{error}</div>}
+
+        {completion && (
+          <div className="form-group">
+            <label htmlFor="sampling-reply">
+              {getTranslation(language, 'samplingReply')} ({completion.model})
+            </label>
+            <textarea
+              id="sampling-reply"
+              value={replyText}
+              onChange={(e) => setReplyText(e.target.value)}
+              rows={6}
+            />
+          </div>
+        )}
+
+        <div className="modal-actions">
+          {completion ? (
+            <button type="button" className="btn" onClick={handleSend}>
+              {getTranslation(language, 'sendToServer')}
+            </button>
+          ) : (
+            <button type="button" className="btn" onClick={handleGenerate} disabled={isGenerating}>
+              {isGenerating ? (
+                <>
+                  <span className="loading"></span> {getTranslation(language, 'generating')}
+                </>
+              ) : (
+                getTranslation(language, 'generateReply')
+              )}
+            </button>
+          )}
+          <button type="button" className="btn btn-secondary" onClick={onReject} disabled={isGenerating}>
+            {getTranslation(language, 'reject')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SamplingApprovalDialog;
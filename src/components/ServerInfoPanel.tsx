@@ -0,0 +1,75 @@
+import React, { useId } from 'react';
+import { McpLogLevel, McpServerCapabilities, ServerInfoPanelProps } from '../types';
+import { getTranslation } from '../config/languages';
+import { MCP_PROTOCOL_VERSION } from '../config/servers';
+
+const LOG_LEVELS: McpLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const CAPABILITY_NAMES: (keyof McpServerCapabilities)[] = ['tools', 'resources', 'prompts', 'logging', 'completions'];
+
+const ServerInfoPanel: React.FC<ServerInfoPanelProps> = ({ serverInfo, onLogLevelChange, language = 'en' }) => {
+  // One panel is shown per connected server, so the select needs a unique id
+  const logLevelId = useId();
+  const { capabilities } = serverInfo;
+  const versionMismatch = serverInfo.protocolVersion !== MCP_PROTOCOL_VERSION;
+
+  return (
+    <div className="tools-section">
+      <h2>{getTranslation(language, 'serverInfo')}</h2>
+
+      <div className="server-info-grid">
+        <div>
+          <span className="server-info-label">{getTranslation(language, 'serverName')}</span>
+          {serverInfo.serverInfo.name} {serverInfo.serverInfo.version}
+        </div>
+        <div>
+          <span className="server-info-label">{getTranslation(language, 'protocolVersion')}</span>
+          {serverInfo.protocolVersion || '?'}
+        </div>
+      </div>
+
+      {versionMismatch && (
+        <div className="status error">
+          {getTranslation(language, 'protocolVersionMismatch', {
+            server: serverInfo.protocolVersion || '?',
+            client: MCP_PROTOCOL_VERSION
+          })}
+        </div>
+      )}
+
+      <div className="capability-badges">
+        {CAPABILITY_NAMES.map(name => (
+          <span key={name} className={`capability-badge ${capabilities[name] ? 'enabled' : ''}`}>
+            {name}
+          </span>
+        ))}
+        {capabilities.resources?.subscribe && <span className="capability-badge enabled">subscribe</span>}
+      </div>
+
+      {serverInfo.instructions && (
+        <div className="server-instructions">
+          <span className="server-info-label">{getTranslation(language, 'serverInstructions')}</span>
+          {serverInfo.instructions}
+        </div>
+      )}
+
+      {capabilities.logging && (
+        <div className="form-group" style={{ marginTop: '1rem', marginBottom: 0 }}>
+          <label htmlFor={logLevelId}>{getTranslation(language, 'serverLogLevel')}</label>
+          <select
+            id={logLevelId}
+            defaultValue=""
+            onChange={(e) => onLogLevelChange(e.target.value as McpLogLevel)}
+          >
+            <option value="" disabled>{getTranslation(language, 'serverDefault')}</option>
+            {LOG_LEVELS.map(level => (
+              <option key={level} value={level}>{level}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ServerInfoPanel;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { ToolApprovalCardProps } from '../types';
+import { getTranslation } from '../config/languages';
+
+/**
+ * Asks the user to confirm a tool call requested by the LLM. The arguments can
+ * be edited as JSON before the call is approved.
+ */
+const ToolApprovalCard: React.FC<ToolApprovalCardProps> = ({
+  request,
+  onDecision,
+  language = 'en'
+}) => {
+  const [argumentsText, setArgumentsText] = useState<string>(JSON.stringify(request.arguments, null, 2));
+  const [remember, setRemember] = useState<boolean>(false);
+  const [error, setError] = useState<string>('');
+
+  const handleApprove = () => {
+    let args: Record<string, any>;
+    try {
+      args = JSON.parse(argumentsText);
+    } catch (err: any) {
+      setError(`${getTranslation(language, 'invalidToolArguments')}: ${err.message}`);
+      return;
+    }
+
+    if (!args || typeof args !== 'object' || Array.isArray(args)) {
+      setError(getTranslation(language, 'invalidToolArguments'));
+      return;
+    }
+
+    onDecision({ approved: true, arguments: args, remember });
+  };
+
+  return (
+    <div className="tool-approval-card">
+      <div className="tool-approval-title">
+        {getTranslation(language, 'toolApprovalRequest')}: <strong>{request.toolName}</strong>
+      </div>
+
+      <label htmlFor={`tool-arguments-${request.callId}`}>{getTranslation(language, 'toolArguments')}</label>
+      <textarea
+        id={`tool-arguments-${request.callId}`}
+        value={argumentsText}
+        onChange={(e) => {
+          setArgumentsText(e.target.value);
+          setError('');
+        }}
+        rows={Math.min(10, argumentsText.split('\n').length + 1)}
+      />
+      {error && <div className="status error">{error}</div>}
+
+      <label className="tool-approval-remember">
+        <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+        {getTranslation(language, 'rememberForSession')}
+      </label>
+
+      <div className="resource-actions">
+        <button type="button" className="btn btn-small" onClick={handleApprove}>
+          {getTranslation(language, 'approve')}
+        </button>
+        <button
+          type="button"
+          className="btn btn-small btn-secondary"
+          onClick={() => onDecision({ approved: false, remember })}
+        >
+          {getTranslation(language, 'deny')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ToolApprovalCard;
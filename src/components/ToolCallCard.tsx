@@ -0,0 +1,54 @@
+import React from 'react';
+import { ToolCallCardProps } from '../types';
+import { getTranslation } from '../config/languages';
+
+// Pretty-prints JSON values, including JSON that arrives as a string
+const formatJson = (value: any): string => {
+  if (typeof value === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(value), null, 2);
+    } catch (error) {
+      return value;
+    }
+  }
+  return JSON.stringify(value ?? null, null, 2);
+};
+
+/**
+ * Shows a tool call made while answering: collapsed to its name and outcome,
+ * expandable to the arguments and the result or error
+ */
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ call, result, language = 'en' }) => {
+  const status = !result ? 'running' : result.success ? 'success' : 'error';
+
+  return (
+    <details className={`tool-call-card ${status}`}>
+      <summary>
+        <span className="tool-call-name">🔧 {call.name}</span>
+        <span className="tool-call-status">
+          {status === 'running' && (
+            <>
+              <span className="loading"></span> {getTranslation(language, 'toolCallRunning')}
+            </>
+          )}
+          {status === 'success' && `✓ ${getTranslation(language, 'toolCallSucceeded')}`}
+          {status === 'error' && `✗ ${getTranslation(language, 'toolCallFailed')}`}
+          {result?.durationMs !== undefined && ` · ${result.durationMs} ms`}
+        </span>
+      </summary>
+
+      <div className="tool-call-section">
+        <strong>{getTranslation(language, 'parameters')}</strong>
+        <pre>{formatJson(call.parameters)}</pre>
+      </div>
+      {result && (
+        <div className="tool-call-section">
+          <strong>{getTranslation(language, result.success ? 'toolCallResult' : 'toolCallError')}</strong>
+          <pre>{result.success ? formatJson(result.result) : result.error}</pre>
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default ToolCallCard;
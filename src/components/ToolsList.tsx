@@ -1,8 +1,19 @@
 import React from 'react';
-import { ToolsListProps } from '../types';
+import { ToolApprovalMode, ToolsListProps } from '../types';
 import { getTranslation } from '../config/languages';
 
-const ToolsList: React.FC<ToolsListProps> = ({ tools, language = 'en' }) => {
+const APPROVAL_MODES: Array<{ mode: ToolApprovalMode; labelKey: string }> = [
+  { mode: 'allow', labelKey: 'approvalAllow' },
+  { mode: 'ask', labelKey: 'approvalAsk' },
+  { mode: 'deny', labelKey: 'approvalDeny' }
+];
+
+const ToolsList: React.FC<ToolsListProps> = ({
+  tools,
+  approvalModes = {},
+  onApprovalModeChange,
+  language = 'en'
+}) => {
   if (!tools || tools.length === 0) {
     return (
       <div className="tools-section">
@@ -25,6 +36,19 @@ const ToolsList: React.FC<ToolsListProps> = ({ tools, language = 'en' }) => {
                 {getTranslation(language, 'parameters')}: {Object.keys(tool.inputSchema.properties).join(', ')}
               </div>
             )}
+            {onApprovalModeChange && (
+              <label className="tool-approval-mode">
+                {getTranslation(language, 'approvalMode')}:{' '}
+                <select
+                  value={approvalModes[tool.name] ?? 'ask'}
+                  onChange={(e) => onApprovalModeChange(tool.name, e.target.value as ToolApprovalMode)}
+                >
+                  {APPROVAL_MODES.map(({ mode, labelKey }) => (
+                    <option key={mode} value={mode}>{getTranslation(language, labelKey)}</option>
+                  ))}
+                </select>
+              </label>
+            )}
           </div>
         ))}
       </div>
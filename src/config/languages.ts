@@ -29,16 +29,90 @@ export const UI_TRANSLATIONS = {
     language: 'Language',
     connect: 'Connect',
     disconnect: 'Disconnect',
+    serverLabel: 'Server Name',
+    connectedServers: 'MCP Servers',
+    addServer: 'Add Server',
+    removeServer: 'Remove',
+    toolCount: '{count} tools',
+    
+    // Server Info Panel
+    serverInfo: 'Server Info',
+    serverName: 'Server',
+    protocolVersion: 'Protocol version',
+    protocolVersionMismatch: 'The server uses MCP protocol version {server}, but this client was built for {client}. Some features may not work.',
+    serverInstructions: 'Instructions',
+    serverLogLevel: 'Server log level',
+    serverDefault: 'Server default',
     
     // Tools List
     availableTools: 'Available Tools',
     parameters: 'Parameters',
     
+    // Resources List
+    availableResources: 'Available Resources',
+    resourceTemplates: 'Resource Templates',
+    attach: 'Attach',
+    attached: 'Attached',
+    subscribe: 'Subscribe',
+    subscribed: 'Subscribed',
+    
+    // Roots Manager
+    roots: 'Roots',
+    rootsDescription: 'Folders this server may work with. Other servers do not see them. The server is told whenever this list changes.',
+    rootName: 'Name (optional)',
+    addRoot: 'Add Root',
+    remove: 'Remove',
+    invalidRootUri: 'Root URIs must start with file://',
+    duplicateRoot: 'This root has already been added',
+    
+    // Sampling Approval Dialog
+    samplingRequest: 'Server Requests an LLM Reply',
+    samplingRequestDescription: 'The MCP server wants to use your LLM to answer the messages below. Nothing is sent to the LLM or back to the server without your approval.',
+    maxTokens: 'Max tokens',
+    modelHints: 'Preferred models',
+    samplingReply: 'Reply',
+    generateReply: 'Generate Reply',
+    generating: 'Generating...',
+    sendToServer: 'Send to Server',
+    reject: 'Reject',
+    
+    // Tool Call Approval
+    toolApprovalRequest: 'The LLM wants to call',
+    toolArguments: 'Arguments (JSON, editable)',
+    invalidToolArguments: 'The arguments must be a JSON object',
+    rememberForSession: 'Remember for this session',
+    approve: 'Approve',
+    deny: 'Deny',
+    approvalMode: 'Tool calls',
+    approvalAllow: 'Always allow',
+    approvalAsk: 'Ask each time',
+    approvalDeny: 'Deny',
+    
+    // Tool Call Cards
+    toolCallRunning: 'Running',
+    toolCallSucceeded: 'Done',
+    toolCallFailed: 'Failed',
+    toolCallResult: 'Result',
+    toolCallError: 'Error',
+    toolCallCancelled: 'Cancelled before the tool finished',
+    
     // Chat Interface
     chatWithLlm: 'Chat with LLM + MCP Tools',
     mcpClientReady: 'MCP Client Ready! You can now interact with the connected tools through your chosen LLM.',
     typeMessage: 'Type your message here...',
     send: 'Send',
+    stop: 'Stop',
+    responseStopped: 'Response stopped. The LLM will not remember this exchange.',
+    attachedToNextMessage: 'Attached to your next message',
+    typeMessageOrPrompt: 'Type your message, or / to use a prompt...',
+    noMatchingPrompts: 'No matching prompts',
+    usingPrompt: 'Using prompt /{name}',
+    usePrompt: 'Use Prompt',
+    cancel: 'Cancel',
+    tokenUsage: '{input} in / {output} out tokens',
+    sessionUsage: 'Session usage',
+    historyTrimmed: 'To fit the context window of the model, {count} earlier messages were removed from the conversation the LLM sees',
+    historySummarized: 'To fit the context window of the model, {count} earlier messages were replaced by a summary',
     
     // Status Messages
     connecting: 'Connecting to MCP server...',
@@ -65,16 +139,90 @@ export const UI_TRANSLATIONS = {
     language: 'Idioma',
     connect: 'Conectar',
     disconnect: 'Desconectar',
+    serverLabel: 'Nombre del Servidor',
+    connectedServers: 'Servidores MCP',
+    addServer: 'Agregar Servidor',
+    removeServer: 'Quitar',
+    toolCount: '{count} herramientas',
+    
+    // Server Info Panel
+    serverInfo: 'Información del Servidor',
+    serverName: 'Servidor',
+    protocolVersion: 'Versión del protocolo',
+    protocolVersionMismatch: 'El servidor usa la versión {server} del protocolo MCP, pero este cliente se creó para {client}. Algunas funciones pueden no funcionar.',
+    serverInstructions: 'Instrucciones',
+    serverLogLevel: 'Nivel de log del servidor',
+    serverDefault: 'Predeterminado del servidor',
     
     // Tools List
     availableTools: 'Herramientas Disponibles',
     parameters: 'Parámetros',
     
+    // Resources List
+    availableResources: 'Recursos Disponibles',
+    resourceTemplates: 'Plantillas de Recursos',
+    attach: 'Adjuntar',
+    attached: 'Adjuntado',
+    subscribe: 'Suscribirse',
+    subscribed: 'Suscrito',
+    
+    // Roots Manager
+    roots: 'Raíces',
+    rootsDescription: 'Carpetas con las que este servidor puede trabajar. Los demás servidores no las ven. Se avisa al servidor cada vez que esta lista cambia.',
+    rootName: 'Nombre (opcional)',
+    addRoot: 'Añadir Raíz',
+    remove: 'Quitar',
+    invalidRootUri: 'Las URIs de las raíces deben empezar por file://',
+    duplicateRoot: 'Esta raíz ya se ha añadido',
+    
+    // Sampling Approval Dialog
+    samplingRequest: 'El Servidor Solicita una Respuesta del LLM',
+    samplingRequestDescription: 'El servidor MCP quiere usar tu LLM para responder a los mensajes siguientes. No se envía nada al LLM ni al servidor sin tu aprobación.',
+    maxTokens: 'Tokens máximos',
+    modelHints: 'Modelos preferidos',
+    samplingReply: 'Respuesta',
+    generateReply: 'Generar Respuesta',
+    generating: 'Generando...',
+    sendToServer: 'Enviar al Servidor',
+    reject: 'Rechazar',
+    
+    // Tool Call Approval
+    toolApprovalRequest: 'El LLM quiere llamar a',
+    toolArguments: 'Argumentos (JSON, editables)',
+    invalidToolArguments: 'Los argumentos deben ser un objeto JSON',
+    rememberForSession: 'Recordar durante esta sesión',
+    approve: 'Aprobar',
+    deny: 'Denegar',
+    approvalMode: 'Llamadas a la herramienta',
+    approvalAllow: 'Permitir siempre',
+    approvalAsk: 'Preguntar cada vez',
+    approvalDeny: 'Denegar',
+    
+    // Tool Call Cards
+    toolCallRunning: 'En ejecución',
+    toolCallSucceeded: 'Completada',
+    toolCallFailed: 'Fallida',
+    toolCallResult: 'Resultado',
+    toolCallError: 'Error',
+    toolCallCancelled: 'Cancelada antes de que la herramienta terminara',
+    
     // Chat Interface
     chatWithLlm: 'Chat con LLM + Herramientas MCP',
     mcpClientReady: '¡Cliente MCP Listo! Ahora puedes interactuar con las herramientas conectadas a través de tu LLM elegido.',
     typeMessage: 'Escribe tu mensaje aquí...',
     send: 'Enviar',
+    stop: 'Detener',
+    responseStopped: 'Respuesta detenida. El LLM no recordará este intercambio.',
+    attachedToNextMessage: 'Adjunto a tu próximo mensaje',
+    typeMessageOrPrompt: 'Escribe tu mensaje, o / para usar un prompt...',
+    noMatchingPrompts: 'No hay prompts coincidentes',
+    usingPrompt: 'Usando el prompt /{name}',
+    usePrompt: 'Usar Prompt',
+    cancel: 'Cancelar',
+    tokenUsage: '{input} tokens de entrada / {output} de salida',
+    sessionUsage: 'Uso de la sesión',
+    historyTrimmed: 'Para caber en la ventana de contexto del modelo, se quitaron {count} mensajes anteriores de la conversación que ve el LLM',
+    historySummarized: 'Para caber en la ventana de contexto del modelo, {count} mensajes anteriores se reemplazaron por un resumen',
     
     // Status Messages
     connecting: 'Conectando al servidor MCP...',
@@ -0,0 +1,45 @@
+import { LLMProvider } from '../types';
+
+// Context window sizes in tokens
+export const MODEL_TOKEN_LIMITS: Record<string, number> = {
+  'claude-3-5-sonnet-20241022': 200000,
+  'claude-3-haiku-20240307': 200000,
+  'claude-3-opus-20240229': 200000,
+  'gpt-3.5-turbo': 16385,
+  'gpt-3.5-turbo-16k': 16385,
+  'gpt-4': 8192,
+  'gpt-4-32k': 32768,
+  'gpt-4-turbo': 128000,
+  'gpt-4-turbo-preview': 128000,
+  'gpt-4o': 128000,
+  'gpt-4o-mini': 128000
+};
+
+// Used for models missing from the table; Ollama's own default context is small
+const DEFAULT_TOKEN_LIMITS: Record<LLMProvider, number> = {
+  anthropic: 200000,
+  openai: 8192,
+  ollama: 4096
+};
+
+/**
+ * Looks a model up in a table keyed by model name. APIs report dated model ids
+ * such as "gpt-4o-2024-08-06", so the longest entry the id starts with is used.
+ */
+export function findModelEntry<T>(table: Record<string, T>, model: string): T | undefined {
+  if (table[model] !== undefined) {
+    return table[model];
+  }
+
+  const match = Object.keys(table)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? table[match] : undefined;
+}
+
+/**
+ * Returns the context window of a model, preferring a size set in the LLM config
+ */
+export function getModelTokenLimit(provider: LLMProvider, model: string, configured?: number): number {
+  return configured || findModelEntry(MODEL_TOKEN_LIMITS, model) || DEFAULT_TOKEN_LIMITS[provider];
+}
@@ -0,0 +1,37 @@
+import { LLMProvider, LLMUsage, ModelPrice } from '../types';
+import { findModelEntry } from './models';
+
+/**
+ * Prices of the hosted models in USD per million tokens, used to estimate what
+ * a chat costs. Edit or extend this table when prices change or models are added.
+ */
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  'claude-3-5-sonnet-20241022': { input: 3, output: 15 },
+  'claude-3-haiku-20240307': { input: 0.25, output: 1.25 },
+  'claude-3-opus-20240229': { input: 15, output: 75 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-4-turbo-preview': { input: 10, output: 30 },
+  'gpt-4': { input: 30, output: 60 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 }
+};
+
+// Models run locally through Ollama cost nothing per token
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+// Finds the price of a model, including dated ids such as "gpt-4o-2024-08-06"
+export function getModelPrice(provider: LLMProvider, model: string): ModelPrice | undefined {
+  return provider === 'ollama' ? FREE : findModelEntry(MODEL_PRICES, model);
+}
+
+/**
+ * Estimates the cost of the given usage in USD, or undefined when the model has no price
+ */
+export function estimateCost(provider: LLMProvider, model: string, usage: LLMUsage): number | undefined {
+  const price = getModelPrice(provider, model);
+  if (!price) {
+    return undefined;
+  }
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+}
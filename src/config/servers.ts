@@ -0,0 +1,98 @@
+import { McpError, McpServerType } from '../types';
+
+// MCP protocol version requested by the client during initialize
+export const MCP_PROTOCOL_VERSION = '2024-11-05';
+
+// Default server URLs for the transports that connect to a URL
+export const DEFAULT_SERVER_URLS: Partial<Record<McpServerType, string>> = {
+  http: 'http://localhost:5000/api',
+  websocket: 'ws://localhost:5000/mcp',
+  'streamable-http': 'http://localhost:5000/mcp',
+  stdio: 'ws://localhost:3001' // The local stdio bridge
+};
+
+const ALLOWED_PROTOCOLS: Partial<Record<McpServerType, string[]>> = {
+  http: ['http:', 'https:'],
+  websocket: ['ws:', 'wss:'],
+  'streamable-http': ['http:', 'https:'],
+  stdio: ['ws:', 'wss:']
+};
+
+export function serverTypeUsesUrl(type: McpServerType): boolean {
+  return ALLOWED_PROTOCOLS[type] !== undefined;
+}
+
+// The HTTP REST API and the mock server do not speak the MCP JSON-RPC protocol
+export function serverTypeUsesMcpProtocol(type: McpServerType): boolean {
+  return type !== 'http' && type !== 'mock';
+}
+
+// Separates the server name from the tool or prompt name, e.g. "cats__GetCats"
+export const SERVER_NAME_SEPARATOR = '__';
+
+// Leaves room for the tool's own name within the 64 characters LLM tool names may have
+const MAX_SERVER_NAME_LENGTH = 32;
+
+/**
+ * Turns user input into a server name that is safe inside LLM tool names
+ * (letters, digits and single dashes only, so it never contains the separator)
+ */
+export function normalizeServerName(name: string): string {
+  return name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, MAX_SERVER_NAME_LENGTH)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Returns the URL to pre-fill for a server type. VITE_DEFAULT_MCP_URL wins when
+ * its protocol suits the transport; the stdio bridge has its own variable.
+ */
+export function getDefaultServerUrl(type: McpServerType): string {
+  const envUrl: string | undefined = type === 'stdio'
+    ? import.meta.env.VITE_STDIO_BRIDGE_URL
+    : import.meta.env.VITE_DEFAULT_MCP_URL;
+
+  if (envUrl && isAllowedProtocol(envUrl, type)) {
+    return envUrl;
+  }
+  return DEFAULT_SERVER_URLS[type] || '';
+}
+
+/**
+ * Validates a server URL for the given transport and returns it without a trailing slash
+ */
+export function validateServerUrl(url: string | undefined, type: McpServerType): string {
+  const trimmed = url?.trim();
+  if (!trimmed) {
+    throw new McpError('A server URL is required', 'INVALID_URL');
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch (error) {
+    throw new McpError(`Invalid server URL: ${trimmed}`, 'INVALID_URL');
+  }
+
+  const allowed = ALLOWED_PROTOCOLS[type] || [];
+  if (!allowed.includes(parsed.protocol)) {
+    throw new McpError(
+      `Invalid server URL: ${type} servers need a ${allowed.map(p => p.replace(':', '://')).join(' or ')} URL`,
+      'INVALID_URL'
+    );
+  }
+
+  return trimmed.replace(/\/+$/, '');
+}
+
+function isAllowedProtocol(url: string, type: McpServerType): boolean {
+  try {
+    return (ALLOWED_PROTOCOLS[type] || []).includes(new URL(url).protocol);
+  } catch (error) {
+    return false;
+  }
+}
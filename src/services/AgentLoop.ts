@@ -0,0 +1,297 @@
+import {
+  LLMContextCompaction,
+  LLMError,
+  LLMProvider,
+  LLMRequestOptions,
+  LLMTurnResult,
+  LLMUsage,
+  McpClientInterface,
+  TextDeltaHandler,
+  ToolApprovalDecision
+} from '../types';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { addUsage } from '../utils/usage';
+
+/**
+ * Default number of tool rounds a single user message may trigger
+ */
+export const DEFAULT_MAX_TOOL_STEPS = 10;
+
+/**
+ * Default number of tool calls from one model reply that may run at the same time
+ */
+export const DEFAULT_MAX_PARALLEL_TOOL_CALLS = 4;
+
+export interface AgentToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  argumentsError?: string; // Set when the model's arguments could not be parsed
+}
+
+export interface AgentToolOutcome {
+  call: AgentToolCall;
+  content: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+export interface AgentStep {
+  text: string;
+  toolCalls: AgentToolCall[];
+  model: string;
+  usage?: LLMUsage;
+  stopReason?: string;
+  compaction?: LLMContextCompaction; // Set when older history was dropped before the request
+}
+
+/**
+ * Provider-specific hooks used by the agent loop. Each service keeps its own
+ * conversation history format, so the adapter is responsible for recording
+ * both the model replies and the tool results.
+ */
+export interface AgentLoopAdapter {
+  // Sends the current history to the model and records the reply in history.
+  // When a delta handler is given the reply text should be streamed through it.
+  requestStep(onTextDelta?: TextDeltaHandler): Promise<AgentStep>;
+  // Records the results of the previous step's tool calls in history, in the
+  // order the model requested them
+  recordToolResults(outcomes: AgentToolOutcome[]): void;
+}
+
+/**
+ * AgentLoop - shared multi-round tool calling loop for all LLM services
+ * Keeps executing MCP tool calls until the model returns a final text answer
+ */
+export class AgentLoop {
+  private provider: LLMProvider;
+  private mcpClient: McpClientInterface;
+  private maxSteps: number;
+  private maxParallelCalls: number;
+
+  constructor(
+    provider: LLMProvider,
+    mcpClient: McpClientInterface,
+    maxSteps: number = DEFAULT_MAX_TOOL_STEPS,
+    maxParallelCalls: number = DEFAULT_MAX_PARALLEL_TOOL_CALLS
+  ) {
+    this.provider = provider;
+    this.mcpClient = mcpClient;
+    this.maxSteps = maxSteps;
+    // A limit that is not a positive whole number (e.g. NaN from a bad config) would run no calls at all
+    this.maxParallelCalls = Number.isInteger(maxParallelCalls) && maxParallelCalls > 0
+      ? maxParallelCalls
+      : DEFAULT_MAX_PARALLEL_TOOL_CALLS;
+  }
+
+  async run(adapter: AgentLoopAdapter, onTextDelta?: TextDeltaHandler, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    const startedAt = Date.now();
+    const result: LLMTurnResult = {
+      text: '',
+      content: [],
+      toolCalls: [],
+      provider: this.provider,
+      model: '',
+      latencyMs: 0
+    };
+
+    try {
+      const text = await this.runSteps(adapter, result, onTextDelta, options);
+      return { ...result, text, latencyMs: Date.now() - startedAt };
+    } catch (error: any) {
+      // The requests made so far are billed even though the turn failed. Services
+      // pass turnResult on when they wrap other errors in an LLMError.
+      if (error && typeof error === 'object') {
+        error.turnResult = { ...result, latencyMs: Date.now() - startedAt };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Runs model requests and tool calls until the model answers, collecting the
+   * turn into result as it goes. Returns the final answer.
+   */
+  private async runSteps(
+    adapter: AgentLoopAdapter,
+    result: LLMTurnResult,
+    onTextDelta?: TextDeltaHandler,
+    options: LLMRequestOptions = {}
+  ): Promise<string> {
+    const { signal } = options;
+    let hasStreamedText = false;
+
+    for (let step = 0; ; step++) {
+      if (signal?.aborted) {
+        throw new LLMError('Request cancelled', this.provider);
+      }
+
+      let stepDelta: TextDeltaHandler | undefined;
+      if (onTextDelta) {
+        let isFirstDelta = true;
+        stepDelta = (delta) => {
+          // Separate the text of consecutive steps into paragraphs
+          if (isFirstDelta && hasStreamedText) {
+            delta = `\n\n${delta}`;
+          }
+          isFirstDelta = false;
+          hasStreamedText = true;
+          onTextDelta(delta);
+        };
+      }
+
+      const { text, toolCalls, model, usage, stopReason, compaction } = await adapter.requestStep(stepDelta);
+
+      result.model = model;
+      result.stopReason = stopReason;
+      result.usage = addUsage(result.usage, usage);
+      if (compaction) {
+        // Summary requests count towards the turn's usage
+        result.usage = addUsage(result.usage, compaction.usage);
+        result.compaction = {
+          droppedMessages: (result.compaction?.droppedMessages || 0) + compaction.droppedMessages,
+          summarized: !!result.compaction?.summarized || compaction.summarized,
+          usage: addUsage(result.compaction?.usage, compaction.usage)
+        };
+      }
+      if (text) {
+        result.content.push({ type: 'text', text });
+      }
+      result.content.push(...toolCalls.map(call => ({
+        type: 'tool_use' as const,
+        id: call.id,
+        name: call.name,
+        input: call.arguments
+      })));
+
+      if (toolCalls.length === 0) {
+        return text;
+      }
+
+      if (step >= this.maxSteps) {
+        // Answer the pending calls so the history stays valid for the next message
+        adapter.recordToolResults(toolCalls.map(call => ({
+          call,
+          content: 'Tool call skipped: maximum number of tool steps reached',
+          isError: true,
+          durationMs: 0
+        })));
+        throw new LLMError(
+          `Stopped after ${this.maxSteps} tool steps without a final answer from the model`,
+          this.provider
+        );
+      }
+
+      // All calls are decided before any runs, so every confirmation is shown at once
+      // instead of waiting for a free slot
+      const decisions = await Promise.all(toolCalls.map(call => this.approveToolCall(call, options)));
+
+      // The calls of one reply do not depend on each other, so they run concurrently
+      const outcomes = await mapWithConcurrency(
+        toolCalls,
+        this.maxParallelCalls,
+        (call, index) => this.executeToolCall(call, decisions[index], options)
+      );
+      adapter.recordToolResults(outcomes);
+
+      for (const outcome of outcomes) {
+        result.content.push({
+          type: 'tool_result',
+          toolUseId: outcome.call.id,
+          content: outcome.content,
+          isError: outcome.isError
+        });
+        result.toolCalls.push({
+          id: outcome.call.id,
+          name: outcome.call.name,
+          arguments: outcome.call.arguments,
+          content: outcome.content,
+          isError: outcome.isError,
+          durationMs: outcome.durationMs
+        });
+      }
+    }
+  }
+
+  /**
+   * Asks whether the call may run. Returns undefined when no approval is needed,
+   * i.e. without an approval handler or for calls that will not run anyway.
+   */
+  private async approveToolCall(
+    call: AgentToolCall,
+    { approveToolCall }: LLMRequestOptions
+  ): Promise<ToolApprovalDecision | undefined> {
+    if (!approveToolCall || call.argumentsError) {
+      return undefined;
+    }
+    return approveToolCall({ callId: call.id, toolName: call.name, arguments: call.arguments });
+  }
+
+  private async executeToolCall(
+    call: AgentToolCall,
+    decision: ToolApprovalDecision | undefined,
+    options: LLMRequestOptions
+  ): Promise<AgentToolOutcome> {
+    const { signal, onToolProgress, onToolCallStart, onToolCallEnd } = options;
+
+    // The tool is not run with arguments the model garbled; the error lets the model retry
+    if (call.argumentsError) {
+      const content = `Error calling tool: ${call.argumentsError}`;
+      onToolCallStart?.({ id: call.id, name: call.name, parameters: call.arguments });
+      onToolCallEnd?.({ callId: call.id, success: false, error: call.argumentsError, durationMs: 0 });
+      return { call, content, isError: true, durationMs: 0 };
+    }
+
+    let args = call.arguments;
+    if (decision) {
+      if (!decision.approved) {
+        const content = 'Tool call denied by the user';
+        onToolCallStart?.({ id: call.id, name: call.name, parameters: call.arguments });
+        onToolCallEnd?.({ callId: call.id, success: false, error: content, durationMs: 0 });
+        return { call, content, isError: true, durationMs: 0 };
+      }
+      args = decision.arguments ?? call.arguments;
+    }
+    const argumentsEdited = JSON.stringify(args) !== JSON.stringify(call.arguments);
+
+    onToolCallStart?.({ id: call.id, name: call.name, parameters: args });
+    const startedAt = Date.now();
+    try {
+      // Call the real MCP client
+      const mcpResult = await this.mcpClient.callTool(call.name, args, {
+        signal,
+        ...(onToolProgress && {
+          onProgress: (progress) => onToolProgress({ ...progress, callId: call.id, toolName: call.name })
+        })
+      });
+
+      // Handle the MCP result format
+      if (!mcpResult.success) {
+        throw new Error(mcpResult.error || 'Tool call failed');
+      }
+
+      const durationMs = Date.now() - startedAt;
+      onToolCallEnd?.({ callId: call.id, success: true, result: mcpResult.result, durationMs });
+      const content = JSON.stringify(mcpResult.result ?? null, null, 2);
+      return {
+        call,
+        // Tell the model its call was changed, or the result may not make sense to it
+        content: argumentsEdited
+          ? `The user changed the arguments to ${JSON.stringify(args)} before the call.\n${content}`
+          : content,
+        isError: false,
+        durationMs
+      };
+    } catch (error: any) {
+      const durationMs = Date.now() - startedAt;
+      console.warn(`Tool ${call.name} failed after ${durationMs}ms:`, error.message);
+      onToolCallEnd?.({ callId: call.id, success: false, error: error.message, durationMs });
+      return {
+        call,
+        content: `Error calling tool: ${error.message}`,
+        isError: true,
+        durationMs
+      };
+    }
+  }
+}
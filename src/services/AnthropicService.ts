@@ -5,8 +5,19 @@ import {
   LLMConfig, 
   AnthropicConfig,
   LLMError,
-  McpClientInterface 
+  McpClientInterface,
+  TextDeltaHandler,
+  LLMHistoryMessage,
+  LLMRequestOptions,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMTurnResult,
+  LLMContextCompaction
 } from '../types';
+import { AgentLoop, AgentStep, AgentToolOutcome } from './AgentLoop';
+import { ContextManager } from './ContextManager';
+import { getModelTokenLimit } from '../config/models';
+import { estimateTokens } from '../utils/tokens';
 
 /**
  * AnthropicService - TypeScript implementation for Claude API integration
@@ -17,7 +28,8 @@ export class AnthropicService implements LLMServiceInterface {
   private tools: McpTool[];
   private conversationHistory: Anthropic.Messages.MessageParam[] = [];
   private config: AnthropicConfig;
-  private mcpClient: McpClientInterface;
+  private agentLoop: AgentLoop;
+  private contextManager: ContextManager<Anthropic.Messages.MessageParam>;
 
   constructor(config: LLMConfig, tools: McpTool[] = [], mcpClient: McpClientInterface) {
     if (config.provider !== 'anthropic') {
@@ -31,117 +43,169 @@ export class AnthropicService implements LLMServiceInterface {
     } as any);
     
     this.tools = tools;
-    this.mcpClient = mcpClient;
+    this.agentLoop = new AgentLoop('anthropic', mcpClient, this.config.maxToolSteps, this.config.maxParallelToolCalls);
+    this.contextManager = new ContextManager<Anthropic.Messages.MessageParam>(
+      {
+        // Tool results are user messages too, but with content blocks
+        isTurnStart: (message) => message.role === 'user' && typeof message.content === 'string',
+        toMessage: (message) => ({ role: message.role, content: message.content })
+      },
+      getModelTokenLimit('anthropic', this.config.model, this.config.contextWindow),
+      this.config.contextStrategy === 'summarize' ? (request) => this.complete(request) : undefined
+    );
   }
 
   updateTools(tools: McpTool[]): void {
     this.tools = tools;
   }
 
-  async sendMessage(message: string): Promise<string> {
-    // Add user message to conversation history
-    this.conversationHistory.push({
-      role: 'user',
-      content: message
-    });
+  addToHistory(messages: LLMHistoryMessage[]): void {
+    this.conversationHistory.push(
+      ...messages.map(message => ({ role: message.role, content: message.content }))
+    );
+  }
 
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
     try {
       const response = await this.client.messages.create({
         model: this.config.model,
-        max_tokens: this.config.maxTokens || 1000,
-        messages: this.conversationHistory,
-        tools: this.convertToolsToAnthropicFormat(this.tools)
-      });
-
-      // Handle tool use in the response
-      if (response.content.some(content => content.type === 'tool_use')) {
-        return await this.handleToolUse(response);
-      } else {
-        // Regular text response
-        const textContent = response.content
-          .filter(content => content.type === 'text')
+        max_tokens: request.maxTokens || this.config.maxTokens || 1000,
+        messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+        ...(request.systemPrompt && { system: request.systemPrompt }),
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.stopSequences && { stop_sequences: request.stopSequences })
+      }, { signal: request.signal });
+
+      return {
+        text: response.content
+          .filter((content): content is Anthropic.Messages.TextBlock => content.type === 'text')
           .map(content => content.text)
-          .join('');
-
-        // Add assistant response to conversation history
-        this.conversationHistory.push({
-          role: 'assistant',
-          content: response.content
-        });
-
-        return textContent;
-      }
+          .join(''),
+        provider: 'anthropic',
+        model: response.model,
+        stopReason: response.stop_reason ?? undefined,
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens
+        }
+      };
     } catch (error: any) {
       console.error('Anthropic API error:', error);
       throw new LLMError(`Claude API error: ${error.message}`, 'anthropic');
     }
   }
 
-  private async handleToolUse(response: Anthropic.Messages.Message): Promise<string> {
-    // Add the assistant's response with tool use to conversation history
-    this.conversationHistory.push({
-      role: 'assistant',
-      content: response.content
-    });
+  async sendMessage(message: string, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    return this.runTurn(message, undefined, options);
+  }
 
-    const toolResults: Anthropic.Messages.ToolResultBlockParam[] = [];
-    
-    for (const content of response.content) {
-      if (content.type === 'tool_use') {
-        try {
-          // Call the real MCP client
-          const mcpResult = await this.mcpClient.callTool(content.name, content.input as Record<string, any>);
-          
-          // Handle the MCP result format
-          let result;
-          if (mcpResult.success) {
-            result = mcpResult.result;
-          } else {
-            throw new Error(mcpResult.error || 'Tool call failed');
-          }
-          
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: content.id,
-            content: JSON.stringify(result, null, 2)
-          });
-        } catch (error: any) {
-          toolResults.push({
-            type: 'tool_result',
-            tool_use_id: content.id,
-            content: `Error calling tool: ${error.message}`,
-            is_error: true
-          });
-        }
+  async streamMessage(message: string, onTextDelta: TextDeltaHandler, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    return this.runTurn(message, onTextDelta, options);
+  }
+
+  private async runTurn(message: string, onTextDelta?: TextDeltaHandler, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    const { signal } = options;
+    const userMessage: Anthropic.Messages.MessageParam = {
+      role: 'user',
+      content: message
+    };
+
+    // Add user message to conversation history
+    this.conversationHistory.push(userMessage);
+
+    try {
+      return await this.agentLoop.run({
+        requestStep: (stepDelta) => this.requestStep(stepDelta, signal),
+        recordToolResults: (outcomes) => this.recordToolResults(outcomes)
+      }, onTextDelta, options);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        // Drop the cancelled turn, which may end in unanswered tool calls.
+        // Older turns may have been compacted meanwhile, so find where it starts.
+        this.conversationHistory.splice(this.conversationHistory.indexOf(userMessage));
+        throw new LLMError('Request cancelled', 'anthropic', error.turnResult);
+      }
+      if (error instanceof LLMError) {
+        throw error;
       }
+      console.error('Anthropic API error:', error);
+      throw new LLMError(`Claude API error: ${error.message}`, 'anthropic', error.turnResult);
     }
+  }
 
-    // Add tool results to conversation history
-    this.conversationHistory.push({
-      role: 'user',
-      content: toolResults
-    });
+  private async requestStep(onTextDelta?: TextDeltaHandler, signal?: AbortSignal): Promise<AgentStep> {
+    const tools = this.convertToolsToAnthropicFormat(this.tools);
+    const maxTokens = this.config.maxTokens || 1000;
+    const compaction = await this.fitHistory(maxTokens + estimateTokens(tools), signal);
 
-    // Get Claude's response after tool execution
-    const followUpResponse = await this.client.messages.create({
+    const params: Anthropic.Messages.MessageCreateParamsNonStreaming = {
       model: this.config.model,
-      max_tokens: this.config.maxTokens || 1000,
+      max_tokens: maxTokens,
       messages: this.conversationHistory,
-      tools: this.convertToolsToAnthropicFormat(this.tools)
-    });
+      tools
+    };
+
+    let response: Anthropic.Messages.Message;
+    if (onTextDelta) {
+      const stream = this.client.messages.stream(params, { signal });
+      stream.on('text', (textDelta) => onTextDelta(textDelta));
+      response = await stream.finalMessage();
+    } else {
+      response = await this.client.messages.create(params, { signal });
+    }
 
-    // Add the final response to conversation history
+    // Add the assistant's response (including any tool use) to conversation history
     this.conversationHistory.push({
       role: 'assistant',
-      content: followUpResponse.content
+      content: response.content
     });
 
-    const finalTextContent = followUpResponse.content
-      .filter(content => content.type === 'text')
+    const text = response.content
+      .filter((content): content is Anthropic.Messages.TextBlock => content.type === 'text')
       .map(content => content.text)
       .join('');
 
-    return finalTextContent;
+    const toolCalls = response.content
+      .filter((content): content is Anthropic.Messages.ToolUseBlock => content.type === 'tool_use')
+      .map(content => ({
+        id: content.id,
+        name: content.name,
+        arguments: content.input as Record<string, any>
+      }));
+
+    return {
+      text,
+      toolCalls,
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens
+      },
+      stopReason: response.stop_reason ?? undefined,
+      compaction
+    };
+  }
+
+  // Drops or summarizes older turns that no longer fit into the model's context window
+  private async fitHistory(reservedTokens: number, signal?: AbortSignal): Promise<LLMContextCompaction | undefined> {
+    const { history, compaction } = await this.contextManager.fit(this.conversationHistory, reservedTokens, signal);
+    this.conversationHistory = history;
+    return compaction;
+  }
+
+  private recordToolResults(outcomes: AgentToolOutcome[]): void {
+    const toolResults: Anthropic.Messages.ToolResultBlockParam[] = outcomes.map(outcome => ({
+      type: 'tool_result',
+      tool_use_id: outcome.call.id,
+      content: outcome.content,
+      ...(outcome.isError && { is_error: true })
+    }));
+
+    // Add tool results to conversation history
+    this.conversationHistory.push({
+      role: 'user',
+      content: toolResults
+    });
   }
 
   private convertToolsToAnthropicFormat(mcpTools: McpTool[]): Anthropic.Messages.Tool[] {
@@ -0,0 +1,143 @@
+import {
+  LLMCompletion,
+  LLMCompletionRequest,
+  LLMContextCompaction,
+  LLMHistoryMessage,
+  LLMUsage
+} from '../types';
+import { estimateTokens } from '../utils/tokens';
+
+// Room kept for the summary that replaces dropped turns
+const SUMMARY_MAX_TOKENS = 500;
+
+const SUMMARY_PROMPT = 'Summarize the following conversation between a user and an assistant that can call tools. ' +
+  'Keep the facts, decisions, tool results and open questions the assistant needs to continue the conversation. ' +
+  'Each line of the transcript is one message as JSON.';
+
+/**
+ * Provider-specific hooks used by the context manager, which works on each
+ * service's own history format
+ */
+export interface ContextHistoryAdapter<T> {
+  // Whether a message starts a new turn, i.e. is a user message that is not a tool result.
+  // Turns are only dropped as a whole, so tool calls stay paired with their results.
+  isTurnStart(message: T): boolean;
+  toMessage(message: LLMHistoryMessage): T;
+}
+
+export interface ContextFitResult<T> {
+  history: T[];
+  compaction?: LLMContextCompaction;
+}
+
+/**
+ * ContextManager - keeps a conversation history within a model's context window
+ * The oldest turns are dropped until the history fits, or replaced by a summary
+ * written by the model when a completion function is given. The turn being
+ * answered is always kept.
+ */
+export class ContextManager<T> {
+  private adapter: ContextHistoryAdapter<T>;
+  private tokenLimit: number;
+  private summarize?: (request: LLMCompletionRequest) => Promise<LLMCompletion>;
+
+  constructor(
+    adapter: ContextHistoryAdapter<T>,
+    tokenLimit: number,
+    summarize?: (request: LLMCompletionRequest) => Promise<LLMCompletion>
+  ) {
+    this.adapter = adapter;
+    this.tokenLimit = tokenLimit;
+    this.summarize = summarize;
+  }
+
+  /**
+   * Fits the history into the context window, leaving reservedTokens for the
+   * rest of the request (system prompt, tool definitions and the reply)
+   */
+  async fit(history: T[], reservedTokens: number, signal?: AbortSignal): Promise<ContextFitResult<T>> {
+    const turns = this.splitIntoTurns(history);
+    const turnTokens = turns.map(turn => turn.reduce((sum, message) => sum + estimateTokens(message), 0));
+    let total = turnTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+    if (total <= this.tokenLimit - reservedTokens) {
+      return { history };
+    }
+
+    const budget = this.tokenLimit - reservedTokens - (this.summarize ? SUMMARY_MAX_TOKENS : 0);
+    let droppedTurns = 0;
+    while (droppedTurns < turns.length - 1 && total > budget) {
+      total -= turnTokens[droppedTurns];
+      droppedTurns++;
+    }
+
+    if (droppedTurns === 0) {
+      // Only the current turn is left; the request may still fail with a context error
+      return { history };
+    }
+
+    const dropped = turns.slice(0, droppedTurns).flat();
+    const kept = turns.slice(droppedTurns).flat();
+    const summary = await this.createSummary(dropped, signal);
+
+    return {
+      history: summary ? [...summary.messages, ...kept] : kept,
+      compaction: {
+        droppedMessages: dropped.length,
+        summarized: !!summary,
+        ...(summary?.usage && { usage: summary.usage })
+      }
+    };
+  }
+
+  private splitIntoTurns(history: T[]): T[][] {
+    const turns: T[][] = [];
+    for (const message of history) {
+      if (turns.length === 0 || this.adapter.isTurnStart(message)) {
+        turns.push([]);
+      }
+      turns[turns.length - 1].push(message);
+    }
+    return turns;
+  }
+
+  /**
+   * Asks the model to summarize the dropped messages. The summary is added as a
+   * user message and an acknowledgment so that user and assistant still alternate.
+   * Returns null when summarizing is off or fails, and the turns are just dropped.
+   */
+  private async createSummary(
+    dropped: T[],
+    signal?: AbortSignal
+  ): Promise<{ messages: T[]; usage?: LLMUsage } | null> {
+    if (!this.summarize) {
+      return null;
+    }
+
+    // The transcript itself has to fit into the summary request
+    const maxTranscriptLength = (this.tokenLimit - SUMMARY_MAX_TOKENS) * 2;
+    const transcript = dropped.map(message => JSON.stringify(message)).join('\n').slice(-maxTranscriptLength);
+
+    try {
+      const completion = await this.summarize({
+        systemPrompt: SUMMARY_PROMPT,
+        messages: [{ role: 'user', content: transcript }],
+        maxTokens: SUMMARY_MAX_TOKENS,
+        signal
+      });
+      return {
+        messages: [
+          this.adapter.toMessage({ role: 'user', content: `Summary of the earlier conversation:\n${completion.text}` }),
+          this.adapter.toMessage({ role: 'assistant', content: 'Understood. I will continue from this summary.' })
+        ],
+        usage: completion.usage
+      };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      console.warn('Could not summarize the conversation history, dropping the oldest turns instead:', error);
+      return null;
+    }
+  }
+}
@@ -2,16 +2,62 @@
  * HTTP REST client for connecting to your .NET MCP server
  * Uses the REST API endpoints instead of WebSocket MCP protocol
  */
-import { McpClientInterface, McpServerConfig, McpTool, McpToolResult, McpError, SupportedLanguage } from '../types';
+import {
+  McpClientInterface,
+  McpServerConfig,
+  McpTool,
+  McpToolResult,
+  McpCallToolOptions,
+  McpResource,
+  McpResourceTemplate,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptResult,
+  McpServerInfo,
+  McpError,
+  SupportedLanguage
+} from '../types';
 import { getTranslation } from '../config/languages';
+import { getDefaultServerUrl, validateServerUrl } from '../config/servers';
+import { createRequestSignal } from '../utils/abort';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * REST route used to invoke a tool. Path segments in braces are filled from
+ * the tool arguments; remaining arguments go in the query string (GET/DELETE)
+ * or the JSON body (other methods).
+ */
+interface HttpToolEndpoint {
+  method: string;
+  path: string;
+}
+
+// Routes for the CatsMCP.WebApi tools that predate the generic endpoint
+const KNOWN_TOOL_ENDPOINTS: Record<string, HttpToolEndpoint> = {
+  GetCats: { method: 'GET', path: '/cats' },
+  GetCat: { method: 'GET', path: '/cats/{name}' }
+};
+
+// Used for any tool that neither the server nor KNOWN_TOOL_ENDPOINTS maps to a route
+const GENERIC_TOOL_ENDPOINT: HttpToolEndpoint = { method: 'POST', path: '/mcp/tools/{toolName}' };
+
+// Fallback descriptions for tools the server lists without one
+const TOOL_DESCRIPTION_KEYS: Record<string, string> = {
+  GetCats: 'getCatsDescription',
+  GetCat: 'getCatDescription'
+};
 
 export class HttpMcpClient implements McpClientInterface {
   private connected: boolean = false;
   private tools: McpTool[] = [];
-  private baseUrl: string = 'http://localhost:5000/api';
+  private toolEndpoints = new Map<string, HttpToolEndpoint>();
+  private baseUrl: string = '';
   private selectedLanguage: SupportedLanguage = 'en';
 
   async connect(serverConfig: McpServerConfig): Promise<void> {
+    this.baseUrl = validateServerUrl(serverConfig.url || getDefaultServerUrl('http'), 'http');
+
     try {
       console.log('Connecting to MCP HTTP server:', this.baseUrl);
       
@@ -37,48 +83,14 @@ export class HttpMcpClient implements McpClientInterface {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
       
-      // We expect tools data but will use predefined tools for now
-      await response.json();
-      
+      const data = await response.json();
+      const toolList: any[] = Array.isArray(data) ? data : (data?.tools || []);
+
       // Convert HTTP API tools to MCP tool format
-      this.tools = [
-        {
-          name: 'GetCats',
-          description: getTranslation(this.selectedLanguage, 'getCatsDescription'),
-          inputSchema: {
-            type: 'object',
-            properties: {
-              language: {
-                type: 'string',
-                description: 'Language for the response (en/es)',
-                enum: ['en', 'es'],
-                default: this.selectedLanguage
-              }
-            },
-            required: []
-          }
-        },
-        {
-          name: 'GetCat',
-          description: getTranslation(this.selectedLanguage, 'getCatDescription'),
-          inputSchema: {
-            type: 'object',
-            properties: {
-              name: {
-                type: 'string',
-                description: 'The name of the cat to get details for'
-              },
-              language: {
-                type: 'string',
-                description: 'Language for the response (en/es)',
-                enum: ['en', 'es'],
-                default: this.selectedLanguage
-              }
-            },
-            required: ['name']
-          }
-        }
-      ];
+      this.toolEndpoints.clear();
+      this.tools = toolList
+        .map(tool => this.mapTool(tool))
+        .filter((tool): tool is McpTool => tool !== null);
       
       console.log('Available tools loaded:', this.tools);
     } catch (error) {
@@ -100,7 +112,7 @@ export class HttpMcpClient implements McpClientInterface {
     return this.tools;
   }
 
-  async callTool(name: string, parameters: Record<string, any>, language?: SupportedLanguage): Promise<McpToolResult> {
+  async callTool(name: string, parameters: Record<string, any>, options: McpCallToolOptions = {}): Promise<McpToolResult> {
     if (!this.connected) {
       throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
     }
@@ -108,30 +120,27 @@ export class HttpMcpClient implements McpClientInterface {
     try {
       console.log(`Calling tool: ${name} with parameters:`, parameters);
       
-      // Add language parameter if not provided
-      const toolParams = {
-        ...parameters,
-        language: language || parameters.language || this.selectedLanguage
-      };
-      
-      console.log(`Calling tool with language: ${toolParams.language}`, toolParams);
-      
+      const tool = this.tools.find(tool => tool.name === name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      // Add the language parameter only for tools that declare it. The cats
+      // endpoints take one too, but English is their default and is left out.
+      const language = options.language || parameters.language || this.selectedLanguage;
+      const toolParams = { ...parameters };
+      if (name in KNOWN_TOOL_ENDPOINTS && language === 'en') {
+        delete toolParams.language;
+      } else if (name in KNOWN_TOOL_ENDPOINTS || tool.inputSchema.properties?.language !== undefined) {
+        toolParams.language = language;
+      }
+
+      const request = createRequestSignal(options.signal, options.timeoutMs ?? REQUEST_TIMEOUT_MS);
       let result: any;
-      
-      switch (name) {
-        case 'GetCats':
-          result = await this.getCats(toolParams.language);
-          break;
-          
-        case 'GetCat':
-          if (!parameters.name) {
-            throw new Error('Cat name is required');
-          }
-          result = await this.getCat(parameters.name, toolParams.language);
-          break;
-          
-        default:
-          throw new Error(`Unknown tool: ${name}`);
+      try {
+        result = await this.invokeTool(name, toolParams, request.signal);
+      } finally {
+        request.dispose();
       }
 
       return {
@@ -147,25 +156,94 @@ export class HttpMcpClient implements McpClientInterface {
     }
   }
 
-  private async getCats(language: string = 'en'): Promise<any> {
-    const url = `${this.baseUrl}/cats${language !== 'en' ? `?language=${language}` : ''}`;
-    const response = await fetch(url);
-    if (!response.ok) {
-      throw new Error(`Failed to fetch cats: ${response.statusText}`);
+  /**
+   * Maps one entry of the /mcp/tools response to an MCP tool. Accepts camelCase
+   * or PascalCase property names and the common names for the input schema.
+   */
+  private mapTool(tool: any): McpTool | null {
+    const name = tool?.name ?? tool?.Name;
+    if (typeof name !== 'string' || !name) {
+      console.warn('Ignoring tool without a name:', tool);
+      return null;
     }
-    return await response.json();
+
+    const schema = tool.inputSchema ?? tool.InputSchema ?? tool.input_schema ?? tool.parameters ?? tool.Parameters;
+    const endpoint = tool.endpoint ?? tool.Endpoint;
+    if (endpoint?.path) {
+      this.toolEndpoints.set(name, {
+        method: (endpoint.method || 'POST').toUpperCase(),
+        path: endpoint.path
+      });
+    }
+
+    const descriptionKey = TOOL_DESCRIPTION_KEYS[name];
+    return {
+      name,
+      description: tool.description ?? tool.Description
+        ?? (descriptionKey ? getTranslation(this.selectedLanguage, descriptionKey) : ''),
+      inputSchema: {
+        type: schema?.type || 'object',
+        properties: schema?.properties || {},
+        required: schema?.required || []
+      }
+    };
   }
 
-  private async getCat(name: string, language: string = 'en'): Promise<any> {
-    const url = `${this.baseUrl}/cats/${encodeURIComponent(name)}${language !== 'en' ? `?language=${language}` : ''}`;
-    const response = await fetch(url);
+  private async invokeTool(name: string, parameters: Record<string, any>, signal: AbortSignal): Promise<any> {
+    const endpoint = this.toolEndpoints.get(name) || KNOWN_TOOL_ENDPOINTS[name] || GENERIC_TOOL_ENDPOINT;
+    const remaining: Record<string, any> = { ...parameters };
+
+    const path = endpoint.path.replace(/\{(\w+)\}/g, (_match, key: string) => {
+      if (key === 'toolName') {
+        return encodeURIComponent(name);
+      }
+      if (remaining[key] === undefined || remaining[key] === '') {
+        throw new Error(`Parameter '${key}' is required`);
+      }
+      const value = String(remaining[key]);
+      delete remaining[key];
+      return encodeURIComponent(value);
+    });
+
+    let url = `${this.baseUrl}${path}`;
+    const init: RequestInit = { method: endpoint.method, signal };
+
+    if (endpoint.method === 'GET' || endpoint.method === 'DELETE') {
+      const query = new URLSearchParams();
+      Object.entries(remaining)
+        .filter(([, value]) => value !== undefined && value !== null)
+        .forEach(([key, value]) => query.append(key, typeof value === 'object' ? JSON.stringify(value) : String(value)));
+      if (query.toString()) {
+        url += `?${query.toString()}`;
+      }
+    } else {
+      init.headers = { 'Content-Type': 'application/json' };
+      init.body = JSON.stringify(remaining);
+    }
+
+    const response = await fetch(url, init);
     if (!response.ok) {
-      if (response.status === 404) {
-        throw new Error(`Cat named '${name}' not found`);
+      const detail = await this.readErrorDetail(response);
+      throw new Error(`${name} failed with HTTP ${response.status}${detail ? `: ${detail}` : ` ${response.statusText}`}`);
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    return contentType.includes('json') ? await response.json() : await response.text();
+  }
+
+  private async readErrorDetail(response: Response): Promise<string> {
+    try {
+      const text = await response.text();
+      try {
+        // ASP.NET problem details or a plain { error/message } body
+        const body = JSON.parse(text);
+        return body.detail || body.title || body.error || body.message || text;
+      } catch (error) {
+        return text;
       }
-      throw new Error(`Failed to fetch cat: ${response.statusText}`);
+    } catch (error) {
+      return '';
     }
-    return await response.json();
   }
 
   setLanguage(language: SupportedLanguage): void {
@@ -176,6 +254,59 @@ export class HttpMcpClient implements McpClientInterface {
     }
   }
 
+  // The REST API has no MCP resources
+  async listResources(): Promise<McpResource[]> {
+    return [];
+  }
+
+  async listResourceTemplates(): Promise<McpResourceTemplate[]> {
+    return [];
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    throw new McpError(`Cannot read ${uri}: resources are not supported by this server`, 'NOT_SUPPORTED');
+  }
+
+  async subscribeResource(uri: string): Promise<void> {
+    throw new McpError(`Cannot subscribe to ${uri}: resources are not supported by this server`, 'NOT_SUPPORTED');
+  }
+
+  // The REST API has no MCP prompts
+  async listPrompts(): Promise<McpPrompt[]> {
+    return [];
+  }
+
+  async getPrompt(name: string): Promise<McpPromptResult> {
+    throw new McpError(`Cannot get prompt "${name}": prompts are not supported by this server`, 'NOT_SUPPORTED');
+  }
+
+  // The REST API never sends notifications or drops a connection
+  onNotification(): () => void {
+    return () => undefined;
+  }
+
+  onStatusChange(): () => void {
+    return () => undefined;
+  }
+
+  // The REST API never asks the client for LLM completions or roots
+  setSamplingHandler(): void {
+    // Nothing to handle
+  }
+
+  async setRoots(): Promise<void> {
+    // Nothing to do
+  }
+
+  // The REST API has no MCP initialize handshake or logging
+  getServerInfo(): McpServerInfo | null {
+    return null;
+  }
+
+  async setLogLevel(): Promise<void> {
+    throw new McpError('Logging is not supported by this server', 'NOT_SUPPORTED');
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
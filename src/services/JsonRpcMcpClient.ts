@@ -0,0 +1,576 @@
+/**
+ * Base class for MCP clients that speak the MCP JSON-RPC protocol to a real server.
+ * Subclasses provide the transport (WebSocket, Streamable HTTP, ...) and this
+ * class implements the protocol on top of it.
+ */
+import {
+  McpClientInterface,
+  McpServerConfig,
+  McpTool,
+  McpToolResult,
+  McpCallToolOptions,
+  McpProgress,
+  McpResource,
+  McpResourceTemplate,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptResult,
+  McpNotification,
+  McpNotificationListener,
+  ConnectionStatus,
+  McpSamplingHandler,
+  McpRoot,
+  McpServerInfo,
+  McpServerCapabilities,
+  McpLogLevel,
+  McpError,
+  SupportedLanguage
+} from '../types';
+import { ListenerSet } from '../utils/listeners';
+import { MCP_PROTOCOL_VERSION } from '../config/servers';
+
+const REQUEST_TIMEOUT_MS = 30000;
+
+// JSON-RPC error codes used when answering server requests, by McpError code
+const SERVER_REQUEST_ERROR_CODES: Record<string, number> = {
+  METHOD_NOT_FOUND: -32601,
+  USER_REJECTED: -1
+};
+const INTERNAL_ERROR = -32603;
+
+export interface JsonRpcMessage {
+  jsonrpc: '2.0';
+  id?: number | string;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string; data?: any };
+}
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export abstract class JsonRpcMcpClient implements McpClientInterface {
+  protected connected: boolean = false;
+  protected tools: McpTool[] = [];
+  protected serverConfig: McpServerConfig | null = null;
+  protected selectedLanguage: SupportedLanguage = 'en';
+  private messageId: number = 0;
+  private pendingRequests = new Map<number | string, PendingRequest>();
+  private notificationListeners = new ListenerSet<McpNotification>();
+  private statusListeners = new ListenerSet<ConnectionStatus>();
+  private progressHandlers = new Map<string | number, (progress: McpProgress) => void>();
+  private progressTokenId: number = 0;
+  private samplingHandler: McpSamplingHandler | null = null;
+  private roots: McpRoot[] = [];
+  private serverInfo: McpServerInfo | null = null;
+
+  /**
+   * Reads transport settings (such as the URL) from the config. Runs before
+   * connecting, so invalid settings fail without a connection attempt.
+   */
+  protected abstract configureTransport(serverConfig: McpServerConfig): void;
+
+  // Opens the underlying connection so that messages can be sent
+  protected abstract openTransport(): Promise<void>;
+
+  // Closes the underlying connection
+  protected abstract closeTransport(): Promise<void>;
+
+  // Delivers a single JSON-RPC message to the server
+  protected abstract send(message: JsonRpcMessage): Promise<void>;
+
+  /**
+   * Hook that runs once the MCP initialize handshake has completed
+   */
+  protected afterInitialize(): void {
+    // Nothing to do by default
+  }
+
+  async connect(serverConfig: McpServerConfig): Promise<void> {
+    this.configureTransport(serverConfig);
+    this.serverConfig = serverConfig;
+
+    try {
+      // Set language from server config
+      if (serverConfig.language) {
+        this.selectedLanguage = serverConfig.language;
+      }
+
+      await this.openTransport();
+      await this.initializeConnection();
+
+      this.connected = true;
+      console.log('Successfully connected to MCP server');
+    } catch (error: any) {
+      await this.closeTransport().catch(() => undefined);
+      throw new McpError(`Failed to connect to MCP server: ${error.message}`, 'CONNECTION_FAILED');
+    }
+  }
+
+  /**
+   * Routes a message received from the server
+   */
+  protected handleMessage(message: JsonRpcMessage): void {
+    console.log('Received MCP message:', message);
+
+    if (message.id !== undefined && message.method === undefined) {
+      const request = this.pendingRequests.get(message.id);
+      if (request) {
+        this.pendingRequests.delete(message.id);
+        if (message.error) {
+          request.reject(new Error(message.error.message));
+        } else {
+          request.resolve(message.result);
+        }
+      }
+    } else if (message.method !== undefined && message.id !== undefined) {
+      void this.handleServerRequest(message.id, message.method, message.params || {});
+    } else if (message.method !== undefined && message.id === undefined) {
+      this.handleNotification(message.method, message.params || {}).catch((error) => {
+        console.error(`Failed to handle MCP notification ${message.method}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Answers a request sent by the server to the client
+   */
+  private async handleServerRequest(id: number | string, method: string, params: any): Promise<void> {
+    let response: JsonRpcMessage;
+    try {
+      response = { jsonrpc: '2.0', id, result: await this.runServerRequest(method, params) };
+    } catch (error: any) {
+      console.warn(`MCP server request ${method} failed:`, error);
+      const code = (error instanceof McpError && error.code && SERVER_REQUEST_ERROR_CODES[error.code]) || INTERNAL_ERROR;
+      response = { jsonrpc: '2.0', id, error: { code, message: error.message } };
+    }
+
+    await this.send(response).catch((error) => {
+      console.error(`Failed to answer MCP server request ${method}:`, error);
+    });
+  }
+
+  private async runServerRequest(method: string, params: any): Promise<any> {
+    switch (method) {
+      case 'ping':
+        return {};
+
+      case 'roots/list':
+        return { roots: this.roots };
+
+      case 'sampling/createMessage':
+        if (!this.samplingHandler) {
+          throw new McpError('Sampling is not available: no LLM is configured', 'USER_REJECTED');
+        }
+        return this.samplingHandler(params);
+
+      default:
+        throw new McpError(`Method not found: ${method}`, 'METHOD_NOT_FOUND');
+    }
+  }
+
+  setSamplingHandler(handler: McpSamplingHandler | null): void {
+    this.samplingHandler = handler;
+  }
+
+  async setRoots(roots: McpRoot[]): Promise<void> {
+    this.roots = roots;
+
+    // The server asks for the new list with roots/list when it needs it
+    if (this.connected) {
+      await this.sendNotification('notifications/roots/list_changed');
+    }
+  }
+
+  /**
+   * Turns a server notification into a typed event for the app's listeners
+   */
+  private async handleNotification(method: string, params: any): Promise<void> {
+    switch (method) {
+      case 'notifications/tools/list_changed':
+        // The notification carries no data, so fetch the new list for the listeners
+        await this.fetchTools();
+        this.notificationListeners.emit({ type: 'tools/list_changed', tools: this.tools });
+        break;
+
+      case 'notifications/resources/updated':
+        this.notificationListeners.emit({ type: 'resources/updated', uri: params.uri });
+        break;
+
+      case 'notifications/message':
+        this.notificationListeners.emit({
+          type: 'message',
+          level: params.level || 'info',
+          logger: params.logger,
+          data: params.data
+        });
+        break;
+
+      case 'notifications/progress':
+        // Progress for a request made with a progress token goes to that request's handler
+        this.progressHandlers.get(params.progressToken)?.({
+          progress: params.progress,
+          total: params.total,
+          message: params.message
+        });
+        this.notificationListeners.emit({
+          type: 'progress',
+          progressToken: params.progressToken,
+          progress: params.progress,
+          total: params.total,
+          message: params.message
+        });
+        break;
+
+      default:
+        console.log('Ignoring MCP notification:', method);
+    }
+  }
+
+  onNotification(listener: McpNotificationListener): () => void {
+    return this.notificationListeners.add(listener);
+  }
+
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    return this.statusListeners.add(listener);
+  }
+
+  // Reports a connection status change that did not come from connect() or disconnect()
+  protected emitStatus(status: ConnectionStatus): void {
+    this.statusListeners.emit(status);
+  }
+
+  /**
+   * Repeats the MCP handshake on a freshly reopened transport. Listeners are told
+   * about the tool list, since the server may have changed while it was away.
+   */
+  protected async reinitialize(): Promise<void> {
+    await this.initializeConnection();
+    this.connected = true;
+    this.notificationListeners.emit({ type: 'tools/list_changed', tools: this.tools });
+    this.emitStatus('connected');
+  }
+
+  /**
+   * Fails every request still waiting for a response, e.g. because the connection dropped
+   */
+  protected rejectPendingRequests(error: Error): void {
+    const requests = Array.from(this.pendingRequests.values());
+    this.pendingRequests.clear();
+    requests.forEach(request => request.reject(error));
+  }
+
+  private async initializeConnection(): Promise<void> {
+    // Initialize the MCP connection
+    try {
+      const result = await this.sendRequest('initialize', {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: {
+          roots: { listChanged: true },
+          sampling: {}
+        },
+        clientInfo: {
+          name: 'cats-mcp-react-client',
+          version: '1.0.0'
+        }
+      });
+      this.serverInfo = {
+        protocolVersion: result?.protocolVersion || '',
+        serverInfo: result?.serverInfo || { name: 'unknown', version: '' },
+        capabilities: result?.capabilities || {},
+        instructions: result?.instructions
+      };
+      console.log('MCP server info:', this.serverInfo);
+      if (this.serverInfo.protocolVersion !== MCP_PROTOCOL_VERSION) {
+        console.warn(
+          `MCP server uses protocol version ${this.serverInfo.protocolVersion}, ` +
+          `but this client requested ${MCP_PROTOCOL_VERSION}; some features may not work`
+        );
+      }
+
+      await this.sendNotification('notifications/initialized');
+      this.afterInitialize();
+
+      // List available tools, if the server offers any
+      if (this.hasCapability('tools')) {
+        await this.fetchTools();
+      } else {
+        this.tools = [];
+      }
+    } catch (error) {
+      console.error('Failed to initialize MCP connection:', error);
+      throw error;
+    }
+  }
+
+  private async fetchTools(): Promise<void> {
+    const toolsResponse = await this.sendRequest('tools/list');
+    this.tools = toolsResponse.tools || [];
+    console.log('Available tools:', this.tools);
+  }
+
+  protected sendRequest(method: string, params: any = {}, options: RequestOptions = {}): Promise<any> {
+    const { signal, timeoutMs = REQUEST_TIMEOUT_MS } = options;
+    if (signal?.aborted) {
+      return Promise.reject(new McpError('Request cancelled', 'CANCELLED'));
+    }
+
+    const id = ++this.messageId;
+    const message: JsonRpcMessage = {
+      jsonrpc: '2.0',
+      id,
+      method,
+      params
+    };
+
+    console.log('Sending MCP request:', message);
+
+    return new Promise((resolve, reject) => {
+      // Stops waiting for the response and tells the server to stop working on it.
+      // The spec does not allow cancelling initialize, so that one is only abandoned.
+      const cancel = (error: McpError, reason: string) => {
+        if (this.pendingRequests.has(id)) {
+          this.pendingRequests.get(id)!.reject(error);
+          this.pendingRequests.delete(id);
+          if (method !== 'initialize') {
+            this.sendNotification('notifications/cancelled', { requestId: id, reason })
+              .catch((notifyError) => console.warn('Failed to send MCP cancellation:', notifyError));
+          }
+        }
+      };
+
+      const timeout = setTimeout(() => {
+        cancel(new McpError('Request timeout', 'TIMEOUT'), `Timed out after ${timeoutMs}ms`);
+      }, timeoutMs);
+      const onAbort = () => cancel(new McpError('Request cancelled', 'CANCELLED'), 'Cancelled by the user');
+      signal?.addEventListener('abort', onAbort);
+
+      const cleanUp = () => {
+        clearTimeout(timeout);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.pendingRequests.set(id, {
+        resolve: (result) => {
+          cleanUp();
+          resolve(result);
+        },
+        reject: (error) => {
+          cleanUp();
+          reject(error);
+        }
+      });
+
+      this.send(message).catch((error) => {
+        this.pendingRequests.get(id)?.reject(error);
+        this.pendingRequests.delete(id);
+      });
+    });
+  }
+
+  protected async sendNotification(method: string, params?: any): Promise<void> {
+    await this.send({
+      jsonrpc: '2.0',
+      method,
+      ...(params !== undefined && { params })
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    await this.closeTransport();
+    this.connected = false;
+    this.tools = [];
+    this.serverInfo = null;
+    this.rejectPendingRequests(new McpError('Disconnected from MCP server', 'NOT_CONNECTED'));
+    console.log('Disconnected from MCP server');
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+    return this.tools;
+  }
+
+  async callTool(name: string, parameters: Record<string, any>, options: McpCallToolOptions = {}): Promise<McpToolResult> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+
+    try {
+      // Add the language parameter only for tools that declare it, since servers
+      // with strict input schemas reject unknown arguments
+      const acceptsLanguage = this.tools.find(tool => tool.name === name)?.inputSchema.properties?.language !== undefined;
+      const toolParams = acceptsLanguage
+        ? { ...parameters, language: options.language || parameters.language || this.selectedLanguage }
+        : parameters;
+
+      console.log(`Calling tool: ${name} with parameters:`, toolParams);
+
+      // A progress token asks the server to report progress for this call
+      let progressToken: string | undefined;
+      if (options.onProgress) {
+        progressToken = `progress-${++this.progressTokenId}`;
+        this.progressHandlers.set(progressToken, options.onProgress);
+      }
+
+      let result: any;
+      try {
+        result = await this.sendRequest('tools/call', {
+          name,
+          arguments: toolParams,
+          ...(progressToken && { _meta: { progressToken } })
+        }, { signal: options.signal, timeoutMs: options.timeoutMs });
+      } finally {
+        if (progressToken) {
+          this.progressHandlers.delete(progressToken);
+        }
+      }
+
+      // Tool errors are reported in the result rather than as JSON-RPC errors
+      if (result.isError === true) {
+        const errorText = (result.content || [])
+          .filter((content: any) => content.type === 'text')
+          .map((content: any) => content.text)
+          .join('\n');
+        return {
+          success: false,
+          error: errorText || `Tool ${name} failed`
+        };
+      }
+
+      // Parse the result content if it's JSON
+      let parsedResult = result;
+      if (result.content && result.content[0] && result.content[0].text) {
+        try {
+          parsedResult = JSON.parse(result.content[0].text);
+        } catch (e) {
+          // If not JSON, use the text as-is
+          parsedResult = result.content[0].text;
+        }
+      }
+
+      return {
+        success: true,
+        result: parsedResult
+      };
+    } catch (error: any) {
+      console.error('Tool call failed:', error);
+      return {
+        success: false,
+        error: error.message
+      };
+    }
+  }
+
+  getServerInfo(): McpServerInfo | null {
+    return this.serverInfo;
+  }
+
+  /**
+   * Whether the server declared a capability in its initialize result
+   */
+  private hasCapability(name: keyof McpServerCapabilities): boolean {
+    return this.serverInfo?.capabilities[name] !== undefined;
+  }
+
+  async setLogLevel(level: McpLogLevel): Promise<void> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+    if (!this.hasCapability('logging')) {
+      throw new McpError('Logging is not supported by this server', 'NOT_SUPPORTED');
+    }
+
+    await this.sendRequest('logging/setLevel', { level });
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    if (this.connected && !this.hasCapability('resources')) {
+      return [];
+    }
+    return this.listAllPages('resources/list', 'resources');
+  }
+
+  async listResourceTemplates(): Promise<McpResourceTemplate[]> {
+    if (this.connected && !this.hasCapability('resources')) {
+      return [];
+    }
+    return this.listAllPages('resources/templates/list', 'resourceTemplates');
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+
+    const result = await this.sendRequest('resources/read', { uri });
+    return result.contents || [];
+  }
+
+  async subscribeResource(uri: string): Promise<void> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+
+    if (!this.serverInfo?.capabilities.resources?.subscribe) {
+      throw new McpError(`Cannot subscribe to ${uri}: the server does not support resource subscriptions`, 'NOT_SUPPORTED');
+    }
+
+    await this.sendRequest('resources/subscribe', { uri });
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    if (this.connected && !this.hasCapability('prompts')) {
+      return [];
+    }
+    return this.listAllPages('prompts/list', 'prompts');
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<McpPromptResult> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+
+    const result = await this.sendRequest('prompts/get', { name, arguments: args });
+    return {
+      description: result.description,
+      messages: result.messages || []
+    };
+  }
+
+  /**
+   * Collects every page of a paginated list request
+   */
+  private async listAllPages<T>(method: string, key: string): Promise<T[]> {
+    if (!this.connected) {
+      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
+    }
+
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const result = await this.sendRequest(method, cursor ? { cursor } : {});
+      items.push(...(result[key] || []));
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    return items;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  setLanguage(language: SupportedLanguage): void {
+    this.selectedLanguage = language;
+  }
+}
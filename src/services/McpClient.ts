@@ -3,6 +3,12 @@ import {
   McpServerConfig, 
   McpTool, 
   McpToolResult,
+  McpResource,
+  McpResourceTemplate,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptResult,
+  McpServerInfo,
   McpError,
   SupportedLanguage
 } from '../types';
@@ -78,6 +84,59 @@ export class McpClient implements McpClientInterface {
     return this.getMockToolResponse(name, toolParams);
   }
 
+  // The mock server has no MCP resources
+  async listResources(): Promise<McpResource[]> {
+    return [];
+  }
+
+  async listResourceTemplates(): Promise<McpResourceTemplate[]> {
+    return [];
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    throw new McpError(`Cannot read ${uri}: resources are not supported by this server`, 'NOT_SUPPORTED');
+  }
+
+  async subscribeResource(uri: string): Promise<void> {
+    throw new McpError(`Cannot subscribe to ${uri}: resources are not supported by this server`, 'NOT_SUPPORTED');
+  }
+
+  // The mock server has no MCP prompts
+  async listPrompts(): Promise<McpPrompt[]> {
+    return [];
+  }
+
+  async getPrompt(name: string): Promise<McpPromptResult> {
+    throw new McpError(`Cannot get prompt "${name}": prompts are not supported by this server`, 'NOT_SUPPORTED');
+  }
+
+  // The mock server never sends notifications or drops a connection
+  onNotification(): () => void {
+    return () => undefined;
+  }
+
+  onStatusChange(): () => void {
+    return () => undefined;
+  }
+
+  // The mock server never asks the client for LLM completions or roots
+  setSamplingHandler(): void {
+    // Nothing to handle
+  }
+
+  async setRoots(): Promise<void> {
+    // Nothing to do
+  }
+
+  // The mock server has no MCP initialize handshake or logging
+  getServerInfo(): McpServerInfo | null {
+    return null;
+  }
+
+  async setLogLevel(): Promise<void> {
+    throw new McpError('Logging is not supported by this server', 'NOT_SUPPORTED');
+  }
+
   isConnected(): boolean {
     return this.connected;
   }
@@ -0,0 +1,33 @@
+import { McpServerConfig, McpClientInterface, McpError } from '../types';
+import { HttpMcpClient } from './HttpMcpClient';
+import { WebSocketMcpClient } from './WebSocketMcpClient';
+import { StdioBridgeMcpClient } from './StdioBridgeMcpClient';
+import { StreamableHttpMcpClient } from './StreamableHttpMcpClient';
+import { McpClient } from './McpClient';
+
+/**
+ * Factory class for creating MCP client instances based on the server transport type
+ */
+export class McpClientFactory {
+  static create(config: McpServerConfig): McpClientInterface {
+    switch (config.type) {
+      case 'stdio':
+        return new StdioBridgeMcpClient();
+      
+      case 'websocket':
+        return new WebSocketMcpClient();
+      
+      case 'http':
+        return new HttpMcpClient();
+      
+      case 'streamable-http':
+        return new StreamableHttpMcpClient();
+      
+      case 'mock':
+        return new McpClient();
+      
+      default:
+        throw new McpError(`Unsupported MCP server type: ${config.type}`, 'UNSUPPORTED_TRANSPORT');
+    }
+  }
+}
@@ -0,0 +1,390 @@
+/**
+ * MCP client that is connected to several MCP servers at once.
+ * Tools and prompts of every server are offered under a namespaced name
+ * ("server__tool") so that servers cannot shadow each other, and each call is
+ * routed to the client of the server that owns it.
+ */
+import {
+  McpClientInterface,
+  McpServerConfig,
+  McpServerConnection,
+  McpTool,
+  McpToolResult,
+  McpCallToolOptions,
+  McpResource,
+  McpResourceTemplate,
+  McpResourceContents,
+  McpPrompt,
+  McpPromptResult,
+  McpNotification,
+  McpNotificationListener,
+  ConnectionStatus,
+  McpSamplingHandler,
+  McpRoot,
+  McpServerInfo,
+  McpLogLevel,
+  McpError,
+  SupportedLanguage
+} from '../types';
+import { ListenerSet } from '../utils/listeners';
+import { SERVER_NAME_SEPARATOR, normalizeServerName } from '../config/servers';
+import { McpClientFactory } from './McpClientFactory';
+
+// Anthropic and OpenAI only accept tool names of up to 64 letters, digits, "_" and "-"
+const MAX_TOOL_NAME_LENGTH = 64;
+const INVALID_TOOL_NAME_CHARACTERS = /[^a-zA-Z0-9_-]/g;
+
+interface ServerEntry {
+  name: string;
+  config: McpServerConfig;
+  client: McpClientInterface;
+  status: ConnectionStatus;
+  tools: McpTool[];
+  toolNames: Map<string, string>; // Namespaced tool name -> the server's own tool name
+  roots: McpRoot[];
+  unsubscribe: Array<() => void>;
+}
+
+export class McpClientGroup implements McpClientInterface {
+  private servers = new Map<string, ServerEntry>();
+  private notificationListeners = new ListenerSet<McpNotification>();
+  private statusListeners = new ListenerSet<ConnectionStatus>();
+  private serversListeners = new ListenerSet<McpServerConnection[]>();
+  private resourceOwners = new Map<string, string>();
+  private templateOwners: Array<{ prefix: string; server: string }> = [];
+  private samplingHandler: McpSamplingHandler | null = null;
+  private selectedLanguage: SupportedLanguage = 'en';
+
+  /**
+   * Connects to one more server. The server is named after config.name, or its
+   * transport type when no name is given.
+   */
+  async connect(config: McpServerConfig): Promise<void> {
+    const name = normalizeServerName(config.name || config.type);
+    if (!name) {
+      throw new McpError('A server name is required', 'INVALID_SERVER_NAME');
+    }
+    if (this.servers.has(name)) {
+      throw new McpError(`A server named "${name}" is already connected`, 'DUPLICATE_SERVER');
+    }
+
+    const client = McpClientFactory.create(config);
+    await client.connect({ ...config, language: config.language || this.selectedLanguage });
+
+    try {
+      client.setLanguage(this.selectedLanguage);
+      client.setSamplingHandler(this.samplingHandler);
+
+      const tools = await client.listTools();
+      const entry: ServerEntry = {
+        name,
+        config: { ...config, name },
+        client,
+        status: 'connected',
+        tools: [],
+        toolNames: new Map(),
+        roots: [],
+        unsubscribe: []
+      };
+      this.setServerTools(entry, tools);
+      entry.unsubscribe.push(
+        client.onNotification(notification => this.handleServerNotification(entry, notification)),
+        client.onStatusChange(status => this.handleServerStatus(entry, status))
+      );
+      this.servers.set(name, entry);
+    } catch (error) {
+      await client.disconnect().catch(() => undefined);
+      throw error;
+    }
+
+    this.emitServersChanged();
+    this.notificationListeners.emit({ type: 'tools/list_changed', tools: this.getAllTools() });
+  }
+
+  /**
+   * Disconnects from every server
+   */
+  async disconnect(): Promise<void> {
+    const names = Array.from(this.servers.keys());
+    await Promise.all(names.map(name => this.disconnectServer(name)));
+  }
+
+  /**
+   * Disconnects from a single server and drops its tools
+   */
+  async disconnectServer(name: string): Promise<void> {
+    const entry = this.servers.get(name);
+    if (!entry) {
+      return;
+    }
+
+    this.servers.delete(name);
+    entry.unsubscribe.forEach(unsubscribe => unsubscribe());
+    this.forgetResourceOwner(name);
+
+    try {
+      await entry.client.disconnect();
+    } finally {
+      this.emitServersChanged();
+      this.notificationListeners.emit({ type: 'tools/list_changed', tools: this.getAllTools() });
+    }
+  }
+
+  getServers(): McpServerConnection[] {
+    return Array.from(this.servers.values()).map(entry => ({
+      name: entry.name,
+      type: entry.config.type,
+      status: entry.status,
+      toolCount: entry.tools.length
+    }));
+  }
+
+  /**
+   * Returns the client of a single server, e.g. for its server info
+   */
+  getClient(name: string): McpClientInterface | null {
+    return this.servers.get(name)?.client || null;
+  }
+
+  /**
+   * Listens for servers being added, removed or changing status
+   */
+  onServersChange(listener: (servers: McpServerConnection[]) => void): () => void {
+    return this.serversListeners.add(listener);
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    await Promise.all(this.getConnectedEntries().map(async entry => {
+      this.setServerTools(entry, await entry.client.listTools());
+    }));
+    return this.getAllTools();
+  }
+
+  async callTool(name: string, parameters: Record<string, any>, options?: McpCallToolOptions): Promise<McpToolResult> {
+    const [entry, toolName] = this.resolveName(name);
+    return entry.client.callTool(entry.toolNames.get(name) ?? toolName, parameters, options);
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    const results = await Promise.all(this.getConnectedEntries().map(async entry => {
+      const resources = await entry.client.listResources();
+      resources.forEach(resource => this.resourceOwners.set(resource.uri, entry.name));
+      return resources;
+    }));
+    return results.flat();
+  }
+
+  async listResourceTemplates(): Promise<McpResourceTemplate[]> {
+    this.templateOwners = [];
+    const results = await Promise.all(this.getConnectedEntries().map(async entry => {
+      const templates = await entry.client.listResourceTemplates();
+      templates.forEach(template => this.templateOwners.push({
+        prefix: template.uriTemplate.split('{')[0],
+        server: entry.name
+      }));
+      return templates;
+    }));
+    return results.flat();
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    return this.getResourceOwner(uri).client.readResource(uri);
+  }
+
+  async subscribeResource(uri: string): Promise<void> {
+    await this.getResourceOwner(uri).client.subscribeResource(uri);
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    const results = await Promise.all(this.getConnectedEntries().map(async entry => {
+      const prompts = await entry.client.listPrompts();
+      return prompts.map(prompt => ({ ...prompt, name: this.namespaceName(entry.name, prompt.name) }));
+    }));
+    return results.flat();
+  }
+
+  async getPrompt(name: string, args: Record<string, string>): Promise<McpPromptResult> {
+    const [entry, promptName] = this.resolveName(name);
+    return entry.client.getPrompt(promptName, args);
+  }
+
+  onNotification(listener: McpNotificationListener): () => void {
+    return this.notificationListeners.add(listener);
+  }
+
+  /**
+   * Listens for the combined status: connected while any server is connected
+   */
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void {
+    return this.statusListeners.add(listener);
+  }
+
+  setSamplingHandler(handler: McpSamplingHandler | null): void {
+    this.samplingHandler = handler;
+    this.servers.forEach(entry => entry.client.setSamplingHandler(handler));
+  }
+
+  /**
+   * Roots are granted to each server separately, so that a folder meant for one
+   * server is not exposed to the others; use setServerRoots(name, roots)
+   */
+  async setRoots(): Promise<void> {
+    throw new McpError('Roots are set per server', 'NOT_SUPPORTED');
+  }
+
+  async setServerRoots(name: string, roots: McpRoot[]): Promise<void> {
+    const entry = this.servers.get(name);
+    if (!entry) {
+      throw new McpError(`No connected server named "${name}"`, 'UNKNOWN_SERVER');
+    }
+    entry.roots = roots;
+    await entry.client.setRoots(roots);
+  }
+
+  /**
+   * Several servers have no single server info; use getClient(name).getServerInfo()
+   */
+  getServerInfo(): McpServerInfo | null {
+    return null;
+  }
+
+  // Sets the log level on every server that supports logging
+  async setLogLevel(level: McpLogLevel): Promise<void> {
+    const entries = this.getConnectedEntries().filter(entry => entry.client.getServerInfo()?.capabilities.logging);
+    if (entries.length === 0) {
+      throw new McpError('Logging is not supported by the connected servers', 'NOT_SUPPORTED');
+    }
+    await Promise.all(entries.map(entry => entry.client.setLogLevel(level)));
+  }
+
+  isConnected(): boolean {
+    return this.getConnectedEntries().length > 0;
+  }
+
+  setLanguage(language: SupportedLanguage): void {
+    this.selectedLanguage = language;
+    this.servers.forEach(entry => entry.client.setLanguage(language));
+  }
+
+  private handleServerNotification(entry: ServerEntry, notification: McpNotification): void {
+    switch (notification.type) {
+      case 'tools/list_changed':
+        this.setServerTools(entry, notification.tools);
+        this.emitServersChanged();
+        this.notificationListeners.emit({ type: 'tools/list_changed', tools: this.getAllTools() });
+        break;
+
+      case 'message':
+        // Tell the servers' log messages apart
+        this.notificationListeners.emit({
+          ...notification,
+          logger: notification.logger ? `${entry.name}/${notification.logger}` : entry.name
+        });
+        break;
+
+      default:
+        this.notificationListeners.emit(notification);
+        break;
+    }
+  }
+
+  private handleServerStatus(entry: ServerEntry, status: ConnectionStatus): void {
+    entry.status = status;
+    this.emitServersChanged();
+
+    const statuses = Array.from(this.servers.values()).map(server => server.status);
+    if (statuses.includes('connected')) {
+      this.statusListeners.emit('connected');
+    } else if (statuses.includes('reconnecting')) {
+      this.statusListeners.emit('reconnecting');
+    } else {
+      this.statusListeners.emit('error');
+    }
+  }
+
+  private emitServersChanged(): void {
+    this.serversListeners.emit(this.getServers());
+  }
+
+  private getConnectedEntries(): ServerEntry[] {
+    return Array.from(this.servers.values()).filter(entry => entry.status === 'connected');
+  }
+
+  private getAllTools(): McpTool[] {
+    return Array.from(this.servers.values()).flatMap(entry => entry.tools);
+  }
+
+  private namespaceName(server: string, name: string): string {
+    return `${server}${SERVER_NAME_SEPARATOR}${name}`;
+  }
+
+  private setServerTools(entry: ServerEntry, tools: McpTool[]): void {
+    entry.toolNames = new Map();
+    entry.tools = tools.map(tool => {
+      const name = this.toToolName(entry.name, tool.name);
+      entry.toolNames.set(name, tool.name);
+      return { ...tool, name };
+    });
+  }
+
+  /**
+   * Namespaces a tool name so that LLM providers accept it. Names with other
+   * characters or that are too long are cut down and made unique again by a
+   * hash of the original name; callTool maps them back.
+   */
+  private toToolName(server: string, name: string): string {
+    const namespaced = this.namespaceName(server, name);
+    const sanitized = namespaced.replace(INVALID_TOOL_NAME_CHARACTERS, '_');
+    if (sanitized === namespaced && namespaced.length <= MAX_TOOL_NAME_LENGTH) {
+      return namespaced;
+    }
+
+    const suffix = `_${this.hashName(name)}`;
+    return sanitized.slice(0, MAX_TOOL_NAME_LENGTH - suffix.length) + suffix;
+  }
+
+  // Short, stable hash (FNV-1a) that tells apart names cut to the same prefix
+  private hashName(name: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < name.length; i++) {
+      hash ^= name.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(36);
+  }
+
+  /**
+   * Splits a namespaced tool or prompt name into its server and the server's own name
+   */
+  private resolveName(name: string): [ServerEntry, string] {
+    const separatorIndex = name.indexOf(SERVER_NAME_SEPARATOR);
+    const entry = separatorIndex > 0 ? this.servers.get(name.slice(0, separatorIndex)) : undefined;
+    if (!entry) {
+      throw new McpError(`No connected server provides "${name}"`, 'UNKNOWN_SERVER');
+    }
+    return [entry, name.slice(separatorIndex + SERVER_NAME_SEPARATOR.length)];
+  }
+
+  /**
+   * Finds the server a resource came from: listed resources are known by URI,
+   * URIs filled in from a template by the template's fixed prefix
+   */
+  private getResourceOwner(uri: string): ServerEntry {
+    const owner = this.resourceOwners.get(uri)
+      ?? this.templateOwners.find(template => template.prefix && uri.startsWith(template.prefix))?.server;
+    const entry = owner ? this.servers.get(owner) : undefined;
+    if (!entry) {
+      throw new McpError(`No connected server provides the resource ${uri}`, 'UNKNOWN_SERVER');
+    }
+    return entry;
+  }
+
+  private forgetResourceOwner(server: string): void {
+    this.resourceOwners.forEach((owner, uri) => {
+      if (owner === server) {
+        this.resourceOwners.delete(uri);
+      }
+    });
+    this.templateOwners = this.templateOwners.filter(template => template.server !== server);
+  }
+}
@@ -1,23 +1,62 @@
 import axios, { AxiosInstance } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
 import { 
   LLMServiceInterface, 
   McpTool, 
   LLMConfig, 
   OllamaConfig,
   LLMError,
-  McpClientInterface 
+  McpClientInterface,
+  TextDeltaHandler,
+  LLMHistoryMessage,
+  LLMRequestOptions,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMTurnResult,
+  LLMUsage,
+  LLMContextCompaction
 } from '../types';
+import { AgentLoop, AgentStep, AgentToolCall, AgentToolOutcome } from './AgentLoop';
+import { ContextManager } from './ContextManager';
+import { getModelTokenLimit } from '../config/models';
+import { estimateTokens } from '../utils/tokens';
+import { extractJsonObjects } from '../utils/json';
+
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, any>;
+  };
+}
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaChatResult {
+  message: OllamaMessage;
+  model: string;
+  usage?: LLMUsage;
+  stopReason?: string;
+}
 
 /**
  * OllamaService - TypeScript implementation for Ollama API integration
- * Implements function calling to integrate with MCP tools using local models like DeepSeek
+ * Uses Ollama's native tool calling through /api/chat, and falls back to
+ * describing the tools in the prompt for models without tool support
  */
 export class OllamaService implements LLMServiceInterface {
   private client: AxiosInstance;
   private tools: McpTool[];
-  private conversationHistory: Array<{ role: string; content: string }> = [];
+  private conversationHistory: OllamaMessage[] = [];
   private config: OllamaConfig;
-  private mcpClient: McpClientInterface;
+  private agentLoop: AgentLoop;
+  private contextManager: ContextManager<OllamaMessage>;
+  // Cleared once the model turns out not to support native tool calling
+  private useNativeTools: boolean = true;
 
   constructor(config: LLMConfig, tools: McpTool[] = [], mcpClient: McpClientInterface) {
     if (config.provider !== 'ollama') {
@@ -34,59 +73,363 @@ export class OllamaService implements LLMServiceInterface {
     });
     
     this.tools = tools;
-    this.mcpClient = mcpClient;
+    this.agentLoop = new AgentLoop('ollama', mcpClient, this.config.maxToolSteps, this.config.maxParallelToolCalls);
+    this.contextManager = new ContextManager<OllamaMessage>(
+      {
+        isTurnStart: (message) => message.role === 'user',
+        toMessage: (message) => ({ role: message.role, content: message.content })
+      },
+      getModelTokenLimit('ollama', this.config.model, this.config.contextWindow),
+      this.config.contextStrategy === 'summarize' ? (request) => this.complete(request) : undefined
+    );
   }
 
   updateTools(tools: McpTool[]): void {
     this.tools = tools;
   }
 
-  async sendMessage(message: string): Promise<string> {
-    // Add user message to conversation history
-    this.conversationHistory.push({
-      role: 'user',
-      content: message
-    });
+  addToHistory(messages: LLMHistoryMessage[]): void {
+    this.conversationHistory.push(
+      ...messages.map(message => ({ role: message.role, content: message.content }))
+    );
+  }
 
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
     try {
-      // For Ollama, we need to construct a prompt that includes tool descriptions
-      // and handle function calling manually since Ollama doesn't have built-in function calling
-      const systemPrompt = this.buildSystemPrompt();
-      const fullPrompt = this.buildFullPrompt(systemPrompt, message);
-
-      const response = await this.client.post('/api/generate', {
+      const response = await this.client.post('/api/chat', {
         model: this.config.model,
-        prompt: fullPrompt,
+        messages: [
+          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+          ...request.messages
+        ],
         stream: false,
         options: {
-          num_predict: this.config.maxTokens || 1000,
-          temperature: 0.7
+          num_predict: request.maxTokens || this.config.maxTokens || 1000,
+          ...(this.config.contextWindow && { num_ctx: this.config.contextWindow }),
+          temperature: request.temperature ?? 0.7,
+          ...(request.stopSequences && { stop: request.stopSequences })
         }
+      }, { signal: request.signal });
+
+      const { message, ...reply } = this.toChatResult(response.data, {
+        role: 'assistant',
+        content: response.data?.message?.content || ''
       });
+      return { text: message.content, provider: 'ollama', ...reply };
+    } catch (error: any) {
+      console.error('Ollama API error:', error);
+      throw new LLMError(`Ollama API error: ${error.response?.data?.error || error.message}`, 'ollama');
+    }
+  }
 
-      if (!response.data?.response) {
+  async sendMessage(message: string, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    return this.runTurn(message, undefined, options);
+  }
+
+  async streamMessage(message: string, onTextDelta: TextDeltaHandler, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    return this.runTurn(message, onTextDelta, options);
+  }
+
+  private async runTurn(message: string, onTextDelta?: TextDeltaHandler, options: LLMRequestOptions = {}): Promise<LLMTurnResult> {
+    const { signal } = options;
+    const userMessage: OllamaMessage = {
+      role: 'user',
+      content: message
+    };
+
+    // Add user message to conversation history
+    this.conversationHistory.push(userMessage);
+
+    try {
+      return await this.agentLoop.run({
+        requestStep: (stepDelta) => this.requestStep(stepDelta, signal),
+        recordToolResults: (outcomes) => this.recordToolResults(outcomes)
+      }, onTextDelta, options);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        // Drop the cancelled turn so the model does not see a half-finished exchange.
+        // Older turns may have been compacted meanwhile, so find where it starts.
+        this.conversationHistory.splice(this.conversationHistory.indexOf(userMessage));
+        throw new LLMError('Request cancelled', 'ollama', error.turnResult);
+      }
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      console.error('Ollama API error:', error);
+      throw new LLMError(`Ollama API error: ${error.response?.data?.error || error.message}`, 'ollama', error.turnResult);
+    }
+  }
+
+  private async requestStep(onTextDelta?: TextDeltaHandler, signal?: AbortSignal): Promise<AgentStep> {
+    const compaction = await this.fitHistory(signal);
+
+    if (this.useNativeTools || this.tools.length === 0) {
+      try {
+        return { ...await this.requestChatStep(onTextDelta, signal), compaction };
+      } catch (error: any) {
+        if (!this.isToolsUnsupportedError(error)) {
+          throw error;
+        }
+        console.warn(`Ollama model ${this.config.model} does not support native tool calling, describing tools in the prompt instead`);
+        this.useNativeTools = false;
+      }
+    }
+
+    return { ...await this.requestPromptStep(onTextDelta, signal), compaction };
+  }
+
+  // Drops or summarizes older turns that no longer fit into the model's context window
+  private async fitHistory(signal?: AbortSignal): Promise<LLMContextCompaction | undefined> {
+    // The tools take up room either as definitions or, in prompt mode, in the system prompt
+    const toolTokens = this.tools.length === 0
+      ? 0
+      : estimateTokens(this.useNativeTools ? this.buildToolDefinitions() : this.buildSystemPrompt());
+    const reservedTokens = (this.config.maxTokens || 1000) + toolTokens;
+
+    const { history, compaction } = await this.contextManager.fit(this.conversationHistory, reservedTokens, signal);
+    this.conversationHistory = history;
+    return compaction;
+  }
+
+  /**
+   * Native tool calling: the tools are passed to /api/chat and the model answers
+   * with structured tool_calls
+   */
+  private async requestChatStep(onTextDelta?: TextDeltaHandler, signal?: AbortSignal): Promise<AgentStep> {
+    const { message, ...reply } = await this.chat(
+      this.conversationHistory,
+      this.tools.length > 0 ? this.buildToolDefinitions() : undefined,
+      onTextDelta,
+      signal
+    );
+
+    const toolCalls = (message.tool_calls || []).map(toolCall => ({
+      id: uuidv4(),
+      name: toolCall.function.name,
+      ...this.parseToolArguments(toolCall.function.arguments)
+    }));
+
+    this.conversationHistory.push({
+      role: 'assistant',
+      content: message.content,
+      ...(toolCalls.length > 0 && { tool_calls: this.toOllamaToolCalls(toolCalls) })
+    });
+
+    return { text: message.content, toolCalls, ...reply };
+  }
+
+  /**
+   * Prompt-based tool calling for models without native support: the tools are
+   * described in the system prompt and the model answers with JSON tool calls.
+   * Output that looks like the start of a JSON tool call is held back while
+   * streaming, and only released if the reply turns out not to be a tool call.
+   */
+  private async requestPromptStep(onTextDelta?: TextDeltaHandler, signal?: AbortSignal): Promise<AgentStep> {
+    let text = '';
+    let holdingBack = this.tools.length > 0;
+
+    const holdBackDelta: TextDeltaHandler | undefined = onTextDelta && ((delta) => {
+      text += delta;
+      if (!holdingBack) {
+        onTextDelta(delta);
+        return;
+      }
+
+      const head = text.trimStart();
+      if (head && !head.startsWith('{') && !head.startsWith('`')) {
+        holdingBack = false;
+        onTextDelta(text);
+      }
+    });
+
+    const { message, ...reply } = await this.chat(this.buildPromptModeMessages(), undefined, holdBackDelta, signal);
+    const toolCalls = this.extractToolCalls(message.content);
+
+    if (onTextDelta && holdingBack && toolCalls.length === 0) {
+      onTextDelta(message.content);
+    }
+
+    // The calls are stored in structured form too, so native mode can read them
+    this.conversationHistory.push({
+      role: 'assistant',
+      content: message.content,
+      ...(toolCalls.length > 0 && { tool_calls: this.toOllamaToolCalls(toolCalls) })
+    });
+
+    return { text: toolCalls.length > 0 ? '' : message.content, toolCalls, ...reply };
+  }
+
+  /**
+   * Sends messages to /api/chat. When a delta handler is given the reply is
+   * streamed as newline-delimited JSON and its text passed on as it comes.
+   */
+  private async chat(
+    messages: OllamaMessage[],
+    tools: Array<Record<string, any>> | undefined,
+    onTextDelta?: TextDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<OllamaChatResult> {
+    const body = {
+      model: this.config.model,
+      messages,
+      ...(tools && { tools }),
+      stream: !!onTextDelta,
+      options: {
+        num_predict: this.config.maxTokens || 1000,
+        ...(this.config.contextWindow && { num_ctx: this.config.contextWindow }),
+        temperature: 0.7
+      }
+    };
+
+    if (!onTextDelta) {
+      const response = await this.client.post('/api/chat', body, { signal });
+      const message = response.data?.message;
+      if (!message) {
         throw new LLMError('No response from Ollama', 'ollama');
       }
+      return this.toChatResult(response.data, {
+        role: 'assistant',
+        content: message.content || '',
+        tool_calls: message.tool_calls
+      });
+    }
 
-      const assistantResponse = response.data.response;
+    const response = await fetch(`${this.config.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
 
-      // Check if the response contains a tool call (simple pattern matching)
-      const toolCallMatch = this.extractToolCall(assistantResponse);
-      
-      if (toolCallMatch) {
-        return await this.handleToolCall(toolCallMatch);
-      } else {
-        // Regular text response
-        this.conversationHistory.push({
-          role: 'assistant',
-          content: assistantResponse
-        });
+    if (!response.ok || !response.body) {
+      const errorText = await response.text().catch(() => '');
+      throw new Error(this.parseErrorText(errorText) || `HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    let content = '';
+    const toolCalls: OllamaToolCall[] = [];
+    let receivedReply = false;
+    let finalChunk: any = {};
+
+    await this.readJsonLines(response.body, (chunk) => {
+      if (chunk.error) {
+        throw new Error(chunk.error);
+      }
+      if (chunk.message) {
+        receivedReply = true;
+      }
+      if (chunk.message?.content) {
+        content += chunk.message.content;
+        onTextDelta(chunk.message.content);
+      }
+      if (chunk.message?.tool_calls) {
+        toolCalls.push(...chunk.message.tool_calls);
+      }
+      if (chunk.done) {
+        finalChunk = chunk;
+      }
+    });
+
+    if (!receivedReply) {
+      throw new LLMError('No response from Ollama', 'ollama');
+    }
+
+    return this.toChatResult(finalChunk, { role: 'assistant', content, tool_calls: toolCalls });
+  }
+
+  /**
+   * Reads the model, token counts and stop reason from a /api/chat response,
+   * or from the final chunk of a streamed one
+   */
+  private toChatResult(data: any, message: OllamaMessage): OllamaChatResult {
+    const hasUsage = data?.prompt_eval_count !== undefined || data?.eval_count !== undefined;
+    return {
+      message,
+      model: data?.model || this.config.model,
+      usage: hasUsage
+        ? { inputTokens: data.prompt_eval_count || 0, outputTokens: data.eval_count || 0 }
+        : undefined,
+      stopReason: data?.done_reason
+    };
+  }
+
+  private async readJsonLines(body: ReadableStream<Uint8Array>, onLine: (line: any) => void): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (line.trim()) {
+          onLine(JSON.parse(line));
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  }
+
+  private parseErrorText(errorText: string): string | undefined {
+    try {
+      return JSON.parse(errorText).error;
+    } catch (error) {
+      return errorText || undefined;
+    }
+  }
+
+  // Ollama answers 400 with "<model> does not support tools" for models without tool support
+  private isToolsUnsupportedError(error: any): boolean {
+    const message = error.response?.data?.error || error.message || '';
+    return /does not support tools/i.test(message);
+  }
+
+  private recordToolResults(outcomes: AgentToolOutcome[]): void {
+    for (const outcome of outcomes) {
+      this.conversationHistory.push({
+        role: 'tool',
+        tool_name: outcome.call.name,
+        content: outcome.isError ? `Error: ${outcome.content}` : outcome.content
+      });
+    }
+  }
 
-        return assistantResponse;
+  private buildToolDefinitions(): Array<Record<string, any>> {
+    return this.tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.inputSchema
       }
+    }));
+  }
+
+  private toOllamaToolCalls(toolCalls: AgentToolCall[]): OllamaToolCall[] {
+    return toolCalls.map(toolCall => ({
+      function: { name: toolCall.name, arguments: toolCall.arguments }
+    }));
+  }
+
+  // Ollama sends arguments as an object, but some models produce a JSON string
+  private parseToolArguments(
+    args: Record<string, any> | string | undefined
+  ): Pick<AgentToolCall, 'arguments' | 'argumentsError'> {
+    if (typeof args !== 'string') {
+      return { arguments: args || {} };
+    }
+    try {
+      return { arguments: JSON.parse(args) };
     } catch (error: any) {
-      console.error('Ollama API error:', error);
-      throw new LLMError(`Ollama API error: ${error.response?.data?.error || error.message}`, 'ollama');
+      console.warn('Invalid tool call arguments from Ollama:', args);
+      return { arguments: {}, argumentsError: `invalid JSON arguments: ${error.message}` };
     }
   }
 
@@ -117,95 +460,48 @@ When you need to use a tool, respond with a JSON object in this exact format:
   }
 }
 
-If you don't need to use a tool, respond normally with text.`;
-  }
-
-  private buildFullPrompt(systemPrompt: string, userMessage: string): string {
-    const historyText = this.conversationHistory
-      .slice(-10) // Keep last 10 messages to avoid context overflow
-      .map(msg => `${msg.role}: ${msg.content}`)
-      .join('\n');
-
-    return `${systemPrompt}
+To use several tools at once, respond with one such JSON object per tool call.
 
-${historyText}
+Tool results are provided in messages starting with "Tool". After a tool result you may call another tool in the same JSON format, or answer the user normally.
 
-user: ${userMessage}
-assistant:`;
+If you don't need to use a tool, respond normally with text.`;
   }
 
-  private extractToolCall(response: string): { name: string; parameters: any } | null {
-    try {
-      // Look for JSON patterns in the response
-      const jsonMatch = response.match(/\{[\s\S]*?\}/);
-      if (!jsonMatch) return null;
-
-      const jsonStr = jsonMatch[0];
-      const parsed = JSON.parse(jsonStr);
-      
-      if (parsed.tool_name && parsed.parameters) {
-        return {
-          name: parsed.tool_name,
-          parameters: parsed.parameters
-        };
+  /**
+   * Messages for prompt mode: the tool-aware system prompt followed by the full
+   * history. Models without tool support do not know the tool role or structured
+   * tool calls, so both are written out as text.
+   */
+  private buildPromptModeMessages(): OllamaMessage[] {
+    const history = this.conversationHistory.map((message): OllamaMessage => {
+      if (message.role === 'tool') {
+        return { role: 'user', content: `Tool "${message.tool_name}" returned: ${message.content}` };
       }
-    } catch (error) {
-      // Not a valid tool call
-    }
-    
-    return null;
-  }
-
-  private async handleToolCall(toolCall: { name: string; parameters: any }): Promise<string> {
-    try {
-      // Execute the real tool call via MCP client
-      const mcpResult = await this.mcpClient.callTool(toolCall.name, toolCall.parameters);
-      
-      // Handle the MCP result format
-      let result;
-      if (mcpResult.success) {
-        result = mcpResult.result;
-      } else {
-        throw new Error(mcpResult.error || 'Tool call failed');
+      if (message.tool_calls && !message.content) {
+        const calls = message.tool_calls.map(toolCall => JSON.stringify({
+          tool_name: toolCall.function.name,
+          parameters: toolCall.function.arguments
+        }));
+        return { role: message.role, content: calls.join('\n') };
       }
-      
-      // Add the tool call and result to conversation history
-      this.conversationHistory.push({
-        role: 'assistant',
-        content: `I'll use the ${toolCall.name} tool to help you.`
-      });
-
-      // Generate a follow-up response with the tool result
-      const followUpPrompt = `Tool "${toolCall.name}" returned: ${JSON.stringify(result, null, 2)}
-
-Please provide a helpful response to the user based on this tool result.`;
-
-      const followUpResponse = await this.client.post('/api/generate', {
-        model: this.config.model,
-        prompt: this.buildFullPrompt("You are a helpful AI assistant.", followUpPrompt),
-        stream: false,
-        options: {
-          num_predict: this.config.maxTokens || 1000,
-          temperature: 0.7
-        }
-      });
+      return { role: message.role, content: message.content };
+    });
 
-      const finalResponse = followUpResponse.data?.response || 'Tool executed successfully.';
-      
-      this.conversationHistory.push({
-        role: 'assistant',
-        content: finalResponse
-      });
+    return [{ role: 'system', content: this.buildSystemPrompt() }, ...history];
+  }
 
-      return finalResponse;
-    } catch (error: any) {
-      const errorMessage = `Error executing tool ${toolCall.name}: ${error.message}`;
-      this.conversationHistory.push({
-        role: 'assistant',
-        content: errorMessage
-      });
-      return errorMessage;
-    }
+  /**
+   * Finds the JSON tool calls in a prompt-mode response. Every embedded JSON
+   * object is considered, so nested parameters and several calls per reply work.
+   */
+  private extractToolCalls(response: string): AgentToolCall[] {
+    return extractJsonObjects(response)
+      .filter(parsed => typeof parsed?.tool_name === 'string')
+      .map(parsed => ({
+        id: uuidv4(),
+        name: parsed.tool_name,
+        arguments: parsed.parameters && typeof parsed.parameters === 'object' ? parsed.parameters : {}
+      }));
   }
 
   clearHistory(): void {
@@ -6,19 +6,23 @@ import {
   OpenAIConfig,
   LLMError,
   McpClientInterface,
+  TextDeltaHandler,
+  LLMHistoryMessage,
+  LLMRequestOptions,
+  LLMCompletionRequest,
+  LLMCompletion,
+  LLMTurnResult,
+  LLMContextCompaction,
 } from "../types";
-
-// Token limits for OpenAI models
-// const MODEL_TOKEN_LIMITS: { [key: string]: number } = {
-//   "gpt-3.5-turbo": 16385,
-//   "gpt-3.5-turbo-16k": 16385,
-//   "gpt-4": 8192,
-//   "gpt-4-32k": 32768,
-//   "gpt-4-turbo": 128000,
-//   "gpt-4-turbo-preview": 128000,
-//   "gpt-4o": 128000,
-//   "gpt-4o-mini": 128000,
-// };
+import {
+  AgentLoop,
+  AgentStep,
+  AgentToolCall,
+  AgentToolOutcome,
+} from "./AgentLoop";
+import { ContextManager } from "./ContextManager";
+import { getModelTokenLimit } from "../config/models";
+import { estimateTokens } from "../utils/tokens";
 
 /**
  * OpenAIService - TypeScript implementation for OpenAI API integration
@@ -30,7 +34,8 @@ export class OpenAIService implements LLMServiceInterface {
   private conversationHistory: OpenAI.Chat.Completions.ChatCompletionMessageParam[] =
     [];
   private config: OpenAIConfig;
-  private mcpClient: McpClientInterface;
+  private agentLoop: AgentLoop;
+  private contextManager: ContextManager<OpenAI.Chat.Completions.ChatCompletionMessageParam>;
 
   constructor(
     config: LLMConfig,
@@ -49,135 +54,257 @@ export class OpenAIService implements LLMServiceInterface {
     } as any);
 
     this.tools = tools;
-    this.mcpClient = mcpClient;
+    this.agentLoop = new AgentLoop(
+      "openai",
+      mcpClient,
+      this.config.maxToolSteps,
+      this.config.maxParallelToolCalls
+    );
+    this.contextManager =
+      new ContextManager<OpenAI.Chat.Completions.ChatCompletionMessageParam>(
+        {
+          isTurnStart: (message) => message.role === "user",
+          toMessage: (message) => this.toChatMessage(message),
+        },
+        getModelTokenLimit(
+          "openai",
+          this.config.model,
+          this.config.contextWindow
+        ),
+        this.config.contextStrategy === "summarize"
+          ? (request) => this.complete(request)
+          : undefined
+      );
   }
 
   updateTools(tools: McpTool[]): void {
     this.tools = tools;
   }
 
-  async sendMessage(message: string): Promise<string> {
-    // Add user message to conversation history
-    this.conversationHistory.push({
-      role: "user",
-      content: message,
-    });
+  addToHistory(messages: LLMHistoryMessage[]): void {
+    this.conversationHistory.push(
+      ...messages.map((message) => this.toChatMessage(message))
+    );
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const messages = request.messages.map((message) =>
+      this.toChatMessage(message)
+    );
+    if (request.systemPrompt) {
+      messages.unshift({ role: "system", content: request.systemPrompt });
+    }
 
     try {
-      // Create a strong system prompt with current date and instructions
-      const systemPrompt = this.generateSystemPrompt();
-
-      // Combine system prompt with conversation history
-      const messagesWithSystem = [systemPrompt, ...this.conversationHistory];
-
-      const response = await this.client.chat.completions.create({
-        model: this.config.model,
-        max_tokens: this.config.maxTokens || 2000,
-        messages: messagesWithSystem,
-        tools: this.convertToolsToOpenAIFormat(this.tools),
-        tool_choice: this.tools.length > 0 ? "auto" : undefined,
-        temperature: this.config.temperature || 0.1,
-      });
+      const response = await this.client.chat.completions.create(
+        {
+          model: this.config.model,
+          max_tokens: request.maxTokens || this.config.maxTokens || 2000,
+          messages,
+          temperature: request.temperature ?? this.config.temperature,
+          ...(request.stopSequences && { stop: request.stopSequences }),
+        },
+        { signal: request.signal }
+      );
 
       const choice = response.choices[0];
-      if (!choice?.message) {
-        throw new LLMError("No response from OpenAI", "openai");
-      }
-
-      // Handle tool calls in the response
-      if (choice.message.tool_calls && choice.message.tool_calls.length > 0) {
-        return await this.handleToolCalls(choice.message);
-      } else {
-        // Regular text response
-        const textContent = choice.message.content || "";
-
-        // Add assistant response to conversation history
-        this.conversationHistory.push({
-          role: "assistant",
-          content: textContent,
-        });
-
-        return textContent;
-      }
+      return {
+        text: choice?.message?.content || "",
+        provider: "openai",
+        model: response.model,
+        stopReason: choice?.finish_reason,
+        usage: response.usage && {
+          inputTokens: response.usage.prompt_tokens,
+          outputTokens: response.usage.completion_tokens,
+        },
+      };
     } catch (error: any) {
       console.error("OpenAI API error:", error);
       throw new LLMError(`OpenAI API error: ${error.message}`, "openai");
     }
   }
 
-  private async handleToolCalls(
-    message: OpenAI.Chat.Completions.ChatCompletionMessage
-  ): Promise<string> {
-    // Add the assistant's response with tool calls to conversation history
-    this.conversationHistory.push({
-      role: "assistant",
-      content: message.content,
-      tool_calls: message.tool_calls,
-    });
+  async sendMessage(
+    message: string,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMTurnResult> {
+    return this.runTurn(message, undefined, options);
+  }
+
+  async streamMessage(
+    message: string,
+    onTextDelta: TextDeltaHandler,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMTurnResult> {
+    return this.runTurn(message, onTextDelta, options);
+  }
+
+  private async runTurn(
+    message: string,
+    onTextDelta?: TextDeltaHandler,
+    options: LLMRequestOptions = {}
+  ): Promise<LLMTurnResult> {
+    const { signal } = options;
+    const userMessage: OpenAI.Chat.Completions.ChatCompletionMessageParam = {
+      role: "user",
+      content: message,
+    };
+
+    // Add user message to conversation history
+    this.conversationHistory.push(userMessage);
 
-    const toolResults: OpenAI.Chat.Completions.ChatCompletionMessageParam[] =
-      [];
-
-    if (message.tool_calls) {
-      for (const toolCall of message.tool_calls) {
-        try {
-          // Parse the function arguments
-          const functionArgs = JSON.parse(toolCall.function.arguments);
-
-          // Call the real MCP client
-          const mcpResult = await this.mcpClient.callTool(
-            toolCall.function.name,
-            functionArgs
-          );
-
-          // Handle the MCP result format
-          let result;
-          if (mcpResult.success) {
-            result = mcpResult.result;
-          } else {
-            throw new Error(mcpResult.error || "Tool call failed");
-          }
-
-          toolResults.push({
-            role: "tool",
-            content: JSON.stringify(result, null, 2),
-            tool_call_id: toolCall.id,
-          });
-        } catch (error: any) {
-          toolResults.push({
-            role: "tool",
-            content: `Error calling tool: ${error.message}`,
-            tool_call_id: toolCall.id,
-          });
-        }
+    try {
+      return await this.agentLoop.run(
+        {
+          requestStep: (stepDelta) => this.requestStep(stepDelta, signal),
+          recordToolResults: (outcomes) => this.recordToolResults(outcomes),
+        },
+        onTextDelta,
+        options
+      );
+    } catch (error: any) {
+      if (signal?.aborted) {
+        // Drop the cancelled turn, which may end in unanswered tool calls.
+        // Older turns may have been compacted meanwhile, so find where it starts.
+        this.conversationHistory.splice(
+          this.conversationHistory.indexOf(userMessage)
+        );
+        throw new LLMError("Request cancelled", "openai", error.turnResult);
       }
+      if (error instanceof LLMError) {
+        throw error;
+      }
+      console.error("OpenAI API error:", error);
+      throw new LLMError(
+        `OpenAI API error: ${error.message}`,
+        "openai",
+        error.turnResult
+      );
     }
+  }
 
-    // Add tool results to conversation history
-    this.conversationHistory.push(...toolResults);
+  private async requestStep(
+    onTextDelta?: TextDeltaHandler,
+    signal?: AbortSignal
+  ): Promise<AgentStep> {
+    // Create a strong system prompt with current date and instructions
+    const systemPrompt = this.generateSystemPrompt();
+    const tools = this.convertToolsToOpenAIFormat(this.tools);
+    const maxTokens = this.config.maxTokens || 2000;
+    const compaction = await this.fitHistory(
+      maxTokens + estimateTokens(systemPrompt) + estimateTokens(tools),
+      signal
+    );
+
+    // Combine system prompt with conversation history
+    const messagesWithSystem = [systemPrompt, ...this.conversationHistory];
 
-    // Get OpenAI's response after tool execution
-    const followUpResponse = await this.client.chat.completions.create({
+    const params: OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming = {
       model: this.config.model,
-      max_tokens: this.config.maxTokens || 2000,
-      messages: this.conversationHistory,
-      tools: this.convertToolsToOpenAIFormat(this.tools),
+      max_tokens: maxTokens,
+      messages: messagesWithSystem,
+      tools,
       tool_choice: this.tools.length > 0 ? "auto" : undefined,
       temperature: this.config.temperature || 0.1,
-    });
+    };
 
-    const finalChoice = followUpResponse.choices[0];
-    if (!finalChoice?.message?.content) {
-      throw new LLMError("No follow-up response from OpenAI", "openai");
+    let response: OpenAI.Chat.Completions.ChatCompletion;
+    if (onTextDelta) {
+      const stream = this.client.beta.chat.completions.stream(
+        {
+          ...params,
+          stream: true,
+          // Without this the streamed reply carries no token usage
+          stream_options: { include_usage: true },
+        },
+        { signal }
+      );
+      stream.on("content", (contentDelta) => onTextDelta(contentDelta));
+      response = await stream.finalChatCompletion();
+    } else {
+      response = await this.client.chat.completions.create(params, {
+        signal,
+      });
     }
 
-    // Add the final response to conversation history
+    const choice = response.choices[0];
+    if (!choice?.message) {
+      throw new LLMError("No response from OpenAI", "openai");
+    }
+
+    const toolCalls = choice.message.tool_calls || [];
+
+    // Add the assistant's response (including any tool calls) to conversation history
     this.conversationHistory.push({
       role: "assistant",
-      content: finalChoice.message.content,
+      content: choice.message.content,
+      ...(toolCalls.length > 0 && { tool_calls: toolCalls }),
     });
 
-    return finalChoice.message.content;
+    return {
+      text: choice.message.content || "",
+      toolCalls: toolCalls.map((toolCall) => ({
+        id: toolCall.id,
+        name: toolCall.function.name,
+        ...this.parseToolArguments(toolCall.function.arguments),
+      })),
+      model: response.model,
+      usage: response.usage && {
+        inputTokens: response.usage.prompt_tokens,
+        outputTokens: response.usage.completion_tokens,
+      },
+      stopReason: choice.finish_reason,
+      compaction,
+    };
+  }
+
+  // Drops or summarizes older turns that no longer fit into the model's context window
+  private async fitHistory(
+    reservedTokens: number,
+    signal?: AbortSignal
+  ): Promise<LLMContextCompaction | undefined> {
+    const { history, compaction } = await this.contextManager.fit(
+      this.conversationHistory,
+      reservedTokens,
+      signal
+    );
+    this.conversationHistory = history;
+    return compaction;
+  }
+
+  private toChatMessage(
+    message: LLMHistoryMessage
+  ): OpenAI.Chat.Completions.ChatCompletionMessageParam {
+    return message.role === "user"
+      ? { role: "user", content: message.content }
+      : { role: "assistant", content: message.content };
+  }
+
+  private parseToolArguments(
+    rawArguments: string
+  ): Pick<AgentToolCall, "arguments" | "argumentsError"> {
+    try {
+      return { arguments: rawArguments ? JSON.parse(rawArguments) : {} };
+    } catch (error: any) {
+      console.warn("Invalid tool call arguments from OpenAI:", rawArguments);
+      return {
+        arguments: {},
+        argumentsError: `invalid JSON arguments: ${error.message}`,
+      };
+    }
+  }
+
+  private recordToolResults(outcomes: AgentToolOutcome[]): void {
+    // Add tool results to conversation history
+    this.conversationHistory.push(
+      ...outcomes.map(
+        (outcome): OpenAI.Chat.Completions.ChatCompletionToolMessageParam => ({
+          role: "tool",
+          content: outcome.content,
+          tool_call_id: outcome.call.id,
+        })
+      )
+    );
   }
 
   private generateSystemPrompt(): OpenAI.Chat.Completions.ChatCompletionMessageParam {
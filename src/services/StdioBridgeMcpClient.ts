@@ -0,0 +1,93 @@
+/**
+ * MCP client for stdio servers, reached through the local stdio bridge
+ * (bridge/stdio-bridge.js). The bridge spawns the configured command and
+ * relays its newline-delimited JSON-RPC over a WebSocket, so the browser can
+ * use any off-the-shelf stdio MCP server.
+ */
+import { McpServerConfig, McpError } from '../types';
+import { WebSocketMcpClient } from './WebSocketMcpClient';
+import { getDefaultServerUrl, validateServerUrl } from '../config/servers';
+
+const SPAWN_TIMEOUT_MS = 15000;
+
+export class StdioBridgeMcpClient extends WebSocketMcpClient {
+  private spawnRequest: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+  protected resolveServerUrl(serverConfig: McpServerConfig): string {
+    // For stdio servers the URL is the bridge's, not the MCP server's
+    return validateServerUrl(serverConfig.url || getDefaultServerUrl('stdio'), 'stdio');
+  }
+
+  protected async onSocketOpen(): Promise<void> {
+    const serverConfig = this.serverConfig!;
+    if (!serverConfig.command) {
+      throw new McpError('A server command is required for stdio servers', 'INVALID_CONFIG');
+    }
+
+    console.log('Asking stdio bridge to spawn:', serverConfig.command, serverConfig.arguments);
+
+    // Wait for the bridge to confirm the process started before initializing
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.spawnRequest = null;
+        reject(new Error('Timed out waiting for the stdio bridge to start the server'));
+      }, SPAWN_TIMEOUT_MS);
+
+      this.spawnRequest = {
+        resolve: () => {
+          clearTimeout(timeout);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      };
+
+      this.ws!.send(JSON.stringify({
+        bridge: 'spawn',
+        command: serverConfig.command,
+        args: serverConfig.arguments || []
+      }));
+    });
+  }
+
+  protected handleMessage(message: any): void {
+    // Control messages from the bridge itself carry a "bridge" field instead of "jsonrpc"
+    if (message.bridge === undefined) {
+      super.handleMessage(message);
+      return;
+    }
+
+    switch (message.bridge) {
+      case 'ready':
+        console.log(`Stdio server started by bridge (pid ${message.pid})`);
+        this.spawnRequest?.resolve();
+        this.spawnRequest = null;
+        break;
+
+      case 'stderr':
+        console.warn('[stdio server]', message.data);
+        break;
+
+      case 'error':
+        console.error('Stdio bridge error:', message.message);
+        this.spawnRequest?.reject(new Error(message.message));
+        this.spawnRequest = null;
+        break;
+
+      case 'exit':
+        console.log(`Stdio server exited (code ${message.code}, signal ${message.signal})`);
+        this.spawnRequest?.reject(new Error(`Server process exited with code ${message.code}`));
+        this.spawnRequest = null;
+        if (this.connected) {
+          this.connected = false;
+          this.emitStatus('error');
+        }
+        break;
+
+      default:
+        console.warn('Unknown stdio bridge message:', message);
+    }
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * MCP client for the standard Streamable HTTP transport
+ * JSON-RPC messages are POSTed to a single endpoint and the server answers with
+ * either JSON or an SSE stream. Servers that only speak the older HTTP+SSE
+ * transport (protocol 2024-11-05) are detected and used through a fallback.
+ */
+import { McpServerConfig, McpError } from '../types';
+import { getDefaultServerUrl, validateServerUrl } from '../config/servers';
+import { readServerSentEvents } from '../utils/sse';
+import { JsonRpcMcpClient, JsonRpcMessage } from './JsonRpcMcpClient';
+
+const ENDPOINT_EVENT_TIMEOUT_MS = 10000;
+
+type HttpTransportMode = 'streamable-http' | 'legacy-sse';
+
+export class StreamableHttpMcpClient extends JsonRpcMcpClient {
+  private serverUrl: string = '';
+  private mode: HttpTransportMode | null = null;
+  private sessionId: string | null = null;
+  private legacyEndpoint: string | null = null;
+  private streamController: AbortController | null = null;
+
+  protected configureTransport(serverConfig: McpServerConfig): void {
+    this.serverUrl = validateServerUrl(
+      serverConfig.url || getDefaultServerUrl('streamable-http'),
+      'streamable-http'
+    );
+  }
+
+  protected async openTransport(): Promise<void> {
+    console.log('Connecting to MCP Streamable HTTP server:', this.serverUrl);
+
+    // The transport mode is settled by the server's answer to the initialize request
+    this.mode = null;
+    this.sessionId = null;
+    this.legacyEndpoint = null;
+    this.streamController = new AbortController();
+  }
+
+  protected async send(message: JsonRpcMessage): Promise<void> {
+    if (this.mode === 'legacy-sse') {
+      await this.postToLegacyEndpoint(message);
+      return;
+    }
+
+    const response = await fetch(this.serverUrl, {
+      method: 'POST',
+      headers: this.buildHeaders({
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream'
+      }),
+      body: JSON.stringify(message),
+      signal: this.streamController?.signal
+    });
+
+    if (this.mode === null) {
+      if (message.method === 'initialize' && response.status >= 400 && response.status < 500) {
+        // Not a Streamable HTTP server: fall back to the legacy HTTP+SSE transport
+        console.log(`Streamable HTTP initialize failed (HTTP ${response.status}), trying legacy HTTP+SSE transport`);
+        await this.openLegacyStream();
+        this.mode = 'legacy-sse';
+        await this.postToLegacyEndpoint(message);
+        return;
+      }
+      this.mode = 'streamable-http';
+    }
+
+    const sessionId = response.headers.get('Mcp-Session-Id');
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      const error = new McpError('MCP session expired, please reconnect', 'SESSION_EXPIRED');
+      this.handleConnectionLost(error);
+      throw error;
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // 202 Accepted is the answer to notifications and responses
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.includes('text/event-stream')) {
+      // The response (and any related server messages) arrive on this stream
+      this.consumeEventStream(response.body);
+    } else if (contentType.includes('application/json')) {
+      this.handlePayload(await response.json());
+    }
+  }
+
+  protected afterInitialize(): void {
+    if (this.mode === 'streamable-http') {
+      void this.openServerStream();
+    }
+  }
+
+  /**
+   * Opens the optional GET stream used by the server for its own requests and notifications
+   */
+  private async openServerStream(): Promise<void> {
+    try {
+      const response = await fetch(this.serverUrl, {
+        method: 'GET',
+        headers: this.buildHeaders({ 'Accept': 'text/event-stream' }),
+        signal: this.streamController?.signal
+      });
+
+      // 405 means the server does not offer a standalone stream
+      if (!response.ok || !response.body) {
+        return;
+      }
+      this.consumeEventStream(response.body);
+    } catch (error: any) {
+      if (error.name !== 'AbortError') {
+        console.warn('Could not open MCP server stream:', error);
+      }
+    }
+  }
+
+  /**
+   * Legacy HTTP+SSE transport: a long-lived GET stream whose first "endpoint"
+   * event names the URL that client messages must be POSTed to
+   */
+  private async openLegacyStream(): Promise<void> {
+    const response = await fetch(this.serverUrl, {
+      method: 'GET',
+      headers: { 'Accept': 'text/event-stream' },
+      signal: this.streamController?.signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`Legacy SSE connection failed: HTTP ${response.status}`);
+    }
+    const body = response.body;
+
+    await new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error('Timed out waiting for the SSE endpoint event'));
+      }, ENDPOINT_EVENT_TIMEOUT_MS);
+
+      readServerSentEvents(body, (event) => {
+        if (event.event === 'endpoint') {
+          this.legacyEndpoint = new URL(event.data, this.serverUrl).toString();
+          console.log('Legacy SSE endpoint:', this.legacyEndpoint);
+          clearTimeout(timeout);
+          resolve();
+        } else if (!event.event || event.event === 'message') {
+          this.handleEventData(event.data);
+        }
+      })
+        .then(() => {
+          console.log('MCP SSE stream closed');
+          this.handleConnectionLost(new McpError('Connection to MCP server lost', 'CONNECTION_LOST'));
+          clearTimeout(timeout);
+          reject(new Error('SSE stream closed before the endpoint event'));
+        })
+        .catch((error) => {
+          clearTimeout(timeout);
+          if (error.name !== 'AbortError') {
+            console.error('MCP SSE stream error:', error);
+            this.handleConnectionLost(new McpError('Connection to MCP server lost', 'CONNECTION_LOST'));
+          }
+          reject(error);
+        });
+    });
+  }
+
+  private async postToLegacyEndpoint(message: JsonRpcMessage): Promise<void> {
+    if (!this.legacyEndpoint) {
+      throw new Error('SSE endpoint is not known yet');
+    }
+
+    // Responses arrive on the SSE stream, not in the POST response
+    const response = await fetch(this.legacyEndpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+      signal: this.streamController?.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+  }
+
+  private consumeEventStream(body: ReadableStream<Uint8Array>): void {
+    readServerSentEvents(body, (event) => {
+      if (!event.event || event.event === 'message') {
+        this.handleEventData(event.data);
+      }
+    }).catch((error) => {
+      if (error.name !== 'AbortError') {
+        console.error('MCP SSE stream error:', error);
+      }
+    });
+  }
+
+  /**
+   * Fails the requests nothing will answer any more and tells listeners that the
+   * server is gone, so the UI stops showing it as connected
+   */
+  private handleConnectionLost(error: McpError): void {
+    const wasConnected = this.connected;
+    this.connected = false;
+    this.rejectPendingRequests(error);
+    if (wasConnected) {
+      this.emitStatus('error');
+    }
+  }
+
+  private handleEventData(data: string): void {
+    try {
+      this.handlePayload(JSON.parse(data));
+    } catch (error) {
+      console.error('Error parsing MCP SSE message:', error);
+    }
+  }
+
+  private handlePayload(payload: JsonRpcMessage | JsonRpcMessage[]): void {
+    // Servers may batch several messages into one array
+    (Array.isArray(payload) ? payload : [payload]).forEach(message => this.handleMessage(message));
+  }
+
+  private buildHeaders(headers: Record<string, string>): Record<string, string> {
+    return {
+      ...headers,
+      ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId })
+    };
+  }
+
+  protected async closeTransport(): Promise<void> {
+    this.streamController?.abort();
+    this.streamController = null;
+
+    // Tell the server we are done with the session; servers may answer 405
+    if (this.mode === 'streamable-http' && this.sessionId) {
+      await fetch(this.serverUrl, {
+        method: 'DELETE',
+        headers: this.buildHeaders({})
+      }).catch((error) => console.warn('Failed to end MCP session:', error));
+    }
+
+    this.mode = null;
+    this.sessionId = null;
+    this.legacyEndpoint = null;
+  }
+}
@@ -0,0 +1,61 @@
+import {
+  ToolApprovalPolicyInterface,
+  ToolApprovalMode,
+  ToolApprovalHandler
+} from '../types';
+import { ListenerSet } from '../utils/listeners';
+
+/**
+ * Decides whether a tool call requested by the LLM may run: always, never, or
+ * after asking the user. Decisions the user asks to remember become the tool's
+ * mode for the rest of the session.
+ */
+export class ToolApprovalPolicy implements ToolApprovalPolicyInterface {
+  private modes = new Map<string, ToolApprovalMode>();
+  private listeners = new ListenerSet<Record<string, ToolApprovalMode>>();
+  private defaultMode: ToolApprovalMode;
+
+  constructor(defaultMode: ToolApprovalMode = 'ask') {
+    this.defaultMode = defaultMode;
+  }
+
+  getMode(toolName: string): ToolApprovalMode {
+    return this.modes.get(toolName) ?? this.defaultMode;
+  }
+
+  setMode(toolName: string, mode: ToolApprovalMode): void {
+    this.modes.set(toolName, mode);
+    this.listeners.emit(this.getModes());
+  }
+
+  getModes(): Record<string, ToolApprovalMode> {
+    return Object.fromEntries(this.modes);
+  }
+
+  onChange(listener: (modes: Record<string, ToolApprovalMode>) => void): () => void {
+    return this.listeners.add(listener);
+  }
+
+  /**
+   * Returns the handler the LLM services consult before each tool call;
+   * `ask` is only called for tools in "ask" mode
+   */
+  createHandler(ask: ToolApprovalHandler): ToolApprovalHandler {
+    return async (request) => {
+      switch (this.getMode(request.toolName)) {
+        case 'allow':
+          return { approved: true, arguments: request.arguments };
+        case 'deny':
+          return { approved: false };
+        default:
+          break;
+      }
+
+      const decision = await ask(request);
+      if (decision.remember) {
+        this.setMode(request.toolName, decision.approved ? 'allow' : 'deny');
+      }
+      return decision;
+    };
+  }
+}
@@ -2,201 +2,160 @@
  * WebSocket-based MCP Client for connecting to your .NET MCP server
  * Implements the full MCP JSON-RPC protocol over WebSocket
  */
-import { McpClientInterface, McpServerConfig, McpTool, McpToolResult, McpError, SupportedLanguage } from '../types';
-
-export class WebSocketMcpClient implements McpClientInterface {
-  private ws: WebSocket | null = null;
-  private connected: boolean = false;
-  private tools: McpTool[] = [];
-  private messageId: number = 0;
-  private pendingRequests = new Map<number, { resolve: Function; reject: Function }>();
+import { McpServerConfig, McpError } from '../types';
+import { getDefaultServerUrl, validateServerUrl } from '../config/servers';
+import { JsonRpcMcpClient, JsonRpcMessage } from './JsonRpcMcpClient';
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 10;
+
+export class WebSocketMcpClient extends JsonRpcMcpClient {
+  protected ws: WebSocket | null = null;
   private serverUrl: string = '';
-  private selectedLanguage: SupportedLanguage = 'en';
+  private closedByClient: boolean = false;
+  private reconnectAttempt: number = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
 
-  async connect(serverConfig: McpServerConfig): Promise<void> {
-    try {
-      // For WebSocket connection, we'll use a fixed URL to your .NET server
-      this.serverUrl = 'ws://localhost:5000/mcp';
-      
-      // Set language from server config
-      if (serverConfig.language) {
-        this.selectedLanguage = serverConfig.language;
-      }
-      
-      console.log('Connecting to MCP WebSocket server:', this.serverUrl);
-      
-      await this.connectWebSocket();
-      await this.initializeConnection();
-      
-      this.connected = true;
-      console.log('Successfully connected to MCP WebSocket server');
-    } catch (error: any) {
-      throw new McpError(`Failed to connect to MCP server: ${error.message}`, 'CONNECTION_FAILED');
-    }
+  protected configureTransport(serverConfig: McpServerConfig): void {
+    this.serverUrl = this.resolveServerUrl(serverConfig);
+  }
+
+  /**
+   * Returns the WebSocket URL to connect to for the given server config
+   */
+  protected resolveServerUrl(serverConfig: McpServerConfig): string {
+    return validateServerUrl(serverConfig.url || getDefaultServerUrl('websocket'), 'websocket');
+  }
+
+  /**
+   * Hook that runs after the socket opens and before the MCP initialize handshake
+   */
+  protected async onSocketOpen(): Promise<void> {
+    // Nothing to do for a plain WebSocket MCP server
+  }
+
+  protected async openTransport(): Promise<void> {
+    console.log('Connecting to MCP WebSocket server:', this.serverUrl);
+
+    this.closedByClient = false;
+    this.reconnectAttempt = 0;
+    await this.connectWebSocket();
+    await this.onSocketOpen();
   }
 
   private connectWebSocket(): Promise<void> {
     return new Promise((resolve, reject) => {
-      this.ws = new WebSocket(this.serverUrl);
-      
-      this.ws.onopen = () => {
+      const socket = new WebSocket(this.serverUrl);
+      this.ws = socket;
+
+      socket.onopen = () => {
         console.log('WebSocket connection established');
         resolve();
       };
-      
-      this.ws.onmessage = (event) => {
+
+      socket.onmessage = (event) => {
         try {
-          const response = JSON.parse(event.data);
-          console.log('Received MCP response:', response);
-          
-          if (response.id !== undefined) {
-            const request = this.pendingRequests.get(response.id);
-            if (request) {
-              this.pendingRequests.delete(response.id);
-              if (response.error) {
-                request.reject(new Error(response.error.message));
-              } else {
-                request.resolve(response.result);
-              }
-            }
-          }
+          this.handleMessage(JSON.parse(event.data));
         } catch (error) {
           console.error('Error parsing WebSocket message:', error);
         }
       };
-      
-      this.ws.onerror = (error) => {
+
+      socket.onerror = (error) => {
         console.error('WebSocket error:', error);
         reject(error);
       };
-      
-      this.ws.onclose = () => {
+
+      socket.onclose = () => {
+        // Sockets we replaced or closed ourselves need no handling
+        if (this.ws !== socket) {
+          return;
+        }
+
         console.log('WebSocket connection closed');
+        const wasConnected = this.connected;
         this.connected = false;
+        this.ws = null;
+        reject(new Error('WebSocket closed before it was opened'));
+
+        // Nothing will answer the requests sent over this socket
+        this.rejectPendingRequests(new McpError('Connection to MCP server lost', 'CONNECTION_LOST'));
+
+        if (wasConnected && !this.closedByClient) {
+          this.scheduleReconnect();
+        }
       };
     });
   }
 
-  private async initializeConnection(): Promise<void> {
-    // Initialize the MCP connection
+  /**
+   * Waits before the next reconnect attempt, using exponential backoff with full
+   * jitter so that many clients do not reconnect at the same moment
+   */
+  private scheduleReconnect(): void {
+    if (this.reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+      console.error(`Giving up reconnecting to MCP server after ${MAX_RECONNECT_ATTEMPTS} attempts`);
+      this.emitStatus('error');
+      return;
+    }
+
+    const maxDelay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt);
+    const delay = Math.round(Math.random() * maxDelay);
+    this.reconnectAttempt++;
+
+    console.log(`Reconnecting to MCP server in ${delay}ms (attempt ${this.reconnectAttempt})`);
+    this.emitStatus('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      void this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect(): Promise<void> {
     try {
-      await this.sendRequest('initialize', {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          roots: { listChanged: true },
-          sampling: {}
-        },
-        clientInfo: {
-          name: 'cats-mcp-react-client',
-          version: '1.0.0'
-        }
-      });
-      
-      // List available tools
-      const toolsResponse = await this.sendRequest('tools/list');
-      this.tools = toolsResponse.tools || [];
-      console.log('Available tools:', this.tools);
+      await this.connectWebSocket();
+      await this.onSocketOpen();
+      await this.reinitialize();
+
+      this.reconnectAttempt = 0;
+      console.log('Reconnected to MCP server');
     } catch (error) {
-      console.error('Failed to initialize MCP connection:', error);
-      throw error;
+      if (this.closedByClient) {
+        return;
+      }
+
+      console.warn('Reconnect attempt failed:', error);
+      this.closeSocket();
+      this.scheduleReconnect();
     }
   }
 
-  private async sendRequest(method: string, params: any = {}): Promise<any> {
+  protected async send(message: JsonRpcMessage): Promise<void> {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       throw new Error('WebSocket is not connected');
     }
-
-    const id = ++this.messageId;
-    const message = {
-      jsonrpc: '2.0',
-      id,
-      method,
-      params
-    };
-
-    console.log('Sending MCP request:', message);
-
-    return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve, reject });
-      this.ws!.send(JSON.stringify(message));
-      
-      // Set timeout for requests
-      setTimeout(() => {
-        if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error('Request timeout'));
-        }
-      }, 30000); // 30 second timeout
-    });
+    this.ws.send(JSON.stringify(message));
   }
 
-  async disconnect(): Promise<void> {
+  private closeSocket(): void {
     if (this.ws) {
-      this.ws.close();
+      const socket = this.ws;
       this.ws = null;
+      socket.close();
     }
-    this.connected = false;
-    this.tools = [];
-    this.pendingRequests.clear();
-    console.log('Disconnected from MCP WebSocket server');
-  }
-
-  async listTools(): Promise<McpTool[]> {
-    if (!this.connected) {
-      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
-    }
-    return this.tools;
   }
 
-  async callTool(name: string, parameters: Record<string, any>, language?: SupportedLanguage): Promise<McpToolResult> {
-    if (!this.connected) {
-      throw new McpError('Not connected to MCP server', 'NOT_CONNECTED');
-    }
-
-    try {
-      // Add language parameter if not provided
-      const toolParams = {
-        ...parameters,
-        language: language || parameters.language || this.selectedLanguage
-      };
-      
-      console.log(`Calling tool: ${name} with parameters:`, toolParams);
-      
-      const result = await this.sendRequest('tools/call', {
-        name,
-        arguments: toolParams
-      });
-
-      // Parse the result content if it's JSON
-      let parsedResult = result;
-      if (result.content && result.content[0] && result.content[0].text) {
-        try {
-          parsedResult = JSON.parse(result.content[0].text);
-        } catch (e) {
-          // If not JSON, use the text as-is
-          parsedResult = result.content[0].text;
-        }
-      }
-
-      return {
-        success: true,
-        result: parsedResult
-      };
-    } catch (error: any) {
-      console.error('Tool call failed:', error);
-      return {
-        success: false,
-        error: error.message
-      };
+  protected async closeTransport(): Promise<void> {
+    this.closedByClient = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
     }
+    this.closeSocket();
   }
 
   isConnected(): boolean {
     return this.connected && this.ws?.readyState === WebSocket.OPEN;
   }
-
-  setLanguage(language: SupportedLanguage): void {
-    this.selectedLanguage = language;
-  }
 }
@@ -18,8 +18,11 @@ export interface McpTool {
   };
 }
 
+export type McpServerType = 'stdio' | 'websocket' | 'http' | 'streamable-http' | 'mock';
+
 export interface McpServerConfig {
-  type: 'stdio' | 'websocket' | 'http';
+  type: McpServerType;
+  name?: string; // Namespaces the server's tools when several servers are connected
   command?: string;
   arguments?: string[];
   url?: string;
@@ -27,6 +30,7 @@ export interface McpServerConfig {
 }
 
 export interface McpToolCall {
+  id?: string;
   name: string;
   parameters: Record<string, any>;
 }
@@ -35,8 +39,145 @@ export interface McpToolResult {
   success: boolean;
   result?: any;
   error?: string;
+  callId?: string; // Set when the result is reported for an LLM tool call
+  durationMs?: number;
+}
+
+export interface McpProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface McpCallToolOptions {
+  language?: SupportedLanguage;
+  signal?: AbortSignal; // Cancels the call, notifying the server when possible
+  timeoutMs?: number; // Overrides the default request timeout
+  onProgress?: (progress: McpProgress) => void; // Receives the server's progress notifications for this call
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string; // Base64-encoded binary data
+}
+
+// A resource whose contents will be sent as context with the next chat message
+export interface McpResourceAttachment {
+  resource: McpResource;
+  contents: McpResourceContents[];
+}
+
+export interface McpPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface McpPrompt {
+  name: string;
+  description?: string;
+  arguments?: McpPromptArgument[];
+}
+
+export type McpPromptContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+  | { type: 'resource'; resource: McpResourceContents };
+
+export interface McpPromptMessage {
+  role: 'user' | 'assistant';
+  content: McpPromptContent;
+}
+
+export interface McpPromptResult {
+  description?: string;
+  messages: McpPromptMessage[];
+}
+
+// A sampling/createMessage request: the server asks the client's LLM for a reply
+export interface McpSamplingMessage {
+  role: 'user' | 'assistant';
+  content:
+    | { type: 'text'; text: string }
+    | { type: 'image'; data: string; mimeType: string };
+}
+
+export interface McpSamplingRequest {
+  messages: McpSamplingMessage[];
+  systemPrompt?: string;
+  maxTokens: number;
+  temperature?: number;
+  stopSequences?: string[];
+  modelPreferences?: {
+    hints?: { name?: string }[];
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+}
+
+export interface McpSamplingResult {
+  role: 'assistant';
+  content: { type: 'text'; text: string };
+  model: string;
+  stopReason?: string;
+}
+
+// Answers a sampling request, or throws to refuse it
+export type McpSamplingHandler = (request: McpSamplingRequest) => Promise<McpSamplingResult>;
+
+// Features the server declared in its initialize result
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, never>;
+  completions?: Record<string, never>;
+  experimental?: Record<string, any>;
+}
+
+// The negotiated result of the MCP initialize handshake
+export interface McpServerInfo {
+  protocolVersion: string;
+  serverInfo: { name: string; version: string };
+  capabilities: McpServerCapabilities;
+  instructions?: string;
+}
+
+// A location the server is allowed to work with, such as a project folder
+export interface McpRoot {
+  uri: string; // A file:// URI
+  name?: string;
 }
 
+// Severity levels of MCP log messages
+export type McpLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+// Notifications sent by the server, as delivered to the app
+export type McpNotification =
+  | { type: 'tools/list_changed'; tools: McpTool[] }
+  | { type: 'resources/updated'; uri: string }
+  | { type: 'message'; level: McpLogLevel; logger?: string; data: any }
+  | { type: 'progress'; progressToken: string | number; progress: number; total?: number; message?: string };
+
+export type McpNotificationListener = (notification: McpNotification) => void;
+
 // LLM Provider Types
 export type LLMProvider = 'anthropic' | 'openai' | 'ollama';
 
@@ -48,8 +189,15 @@ export interface LLMConfig {
   maxTokens?: number;
   temperature?: number; // Optional, default is 0.1
   topP?: number; // Optional, default is 1.0  
+  maxToolSteps?: number; // Optional, default is 10 tool rounds per message
+  maxParallelToolCalls?: number; // Optional, default is 4 tool calls running at once
+  contextWindow?: number; // Optional, overrides the model's known context size in tokens
+  contextStrategy?: ContextStrategy; // Optional, default is 'trim'
 }
 
+// How older turns are made room for when the history outgrows the context window
+export type ContextStrategy = 'trim' | 'summarize';
+
 export interface AnthropicConfig extends LLMConfig {
   provider: 'anthropic';
   model: 'claude-3-5-sonnet-20241022' | 'claude-3-haiku-20240307' | 'claude-3-opus-20240229';
@@ -72,17 +220,31 @@ export interface ChatMessage {
   type: 'user' | 'assistant' | 'system';
   content: string;
   timestamp: Date;
+  attachments?: McpResource[];
+  toolProgress?: ToolProgressEvent[];
   toolCalls?: McpToolCall[];
   toolResults?: McpToolResult[];
+  llmResult?: LLMTurnResult; // Set once a turn completes, or on the error message of a failed turn
 }
 
 // Connection Status
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'error';
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error';
+
+// One of the MCP servers the client is connected to
+export interface McpServerConnection {
+  name: string;
+  type: McpServerType;
+  status: ConnectionStatus;
+  toolCount: number;
+}
 
 // Component Props Types
 export interface ConnectionManagerProps {
   onConnect: (serverConfig: McpServerConfig, llmConfig: LLMConfig) => Promise<void>;
   onDisconnect: () => Promise<void>;
+  onAddServer: (serverConfig: McpServerConfig) => Promise<void>;
+  onRemoveServer: (name: string) => Promise<void>;
+  servers: McpServerConnection[];
   connectionStatus: ConnectionStatus;
   statusMessage: string;
   selectedLanguage?: SupportedLanguage;
@@ -91,6 +253,59 @@ export interface ConnectionManagerProps {
 
 export interface ToolsListProps {
   tools: McpTool[];
+  approvalModes?: Record<string, ToolApprovalMode>;
+  onApprovalModeChange?: (toolName: string, mode: ToolApprovalMode) => void;
+  language?: SupportedLanguage;
+}
+
+export interface ToolCallCardProps {
+  call: McpToolCall;
+  result?: McpToolResult;
+  language?: SupportedLanguage;
+}
+
+export interface ToolApprovalCardProps {
+  request: ToolApprovalRequest;
+  onDecision: (decision: ToolApprovalDecision) => void;
+  language?: SupportedLanguage;
+}
+
+export interface ResourcesListProps {
+  resources: McpResource[];
+  templates: McpResourceTemplate[];
+  mcpClient: McpClientInterface;
+  attachedUris: string[];
+  canSubscribe: boolean;
+  onAttach: (resource: McpResource) => Promise<void>;
+  language?: SupportedLanguage;
+}
+
+export interface PromptFormProps {
+  prompt: McpPrompt;
+  onSubmit: (args: Record<string, string>) => void;
+  onCancel: () => void;
+  language?: SupportedLanguage;
+}
+
+export interface ServerInfoPanelProps {
+  serverInfo: McpServerInfo;
+  onLogLevelChange: (level: McpLogLevel) => void;
+  language?: SupportedLanguage;
+}
+
+export interface RootsManagerProps {
+  serverName: string;
+  roots: McpRoot[];
+  onChange: (roots: McpRoot[]) => void;
+  language?: SupportedLanguage;
+}
+
+export interface SamplingApprovalDialogProps {
+  request: McpSamplingRequest;
+  llmService: LLMServiceInterface;
+  onApprove: (result: McpSamplingResult) => void;
+  onReject: () => void;
+  onCompletion?: (completion: LLMCompletion) => void; // Called for every reply generated, for usage tracking
   language?: SupportedLanguage;
 }
 
@@ -98,6 +313,12 @@ export interface ChatInterfaceProps {
   llmService: LLMServiceInterface | null;
   mcpClient?: McpClientInterface | null;
   language?: SupportedLanguage;
+  prompts?: McpPrompt[];
+  attachments?: McpResourceAttachment[];
+  onRemoveAttachment?: (uri: string) => void;
+  onAttachmentsSent?: () => void;
+  toolApprovalPolicy?: ToolApprovalPolicyInterface | null;
+  backgroundCompletions?: LLMCompletion[]; // LLM requests made outside the chat, e.g. for sampling
 }
 
 // Service Interfaces
@@ -105,13 +326,146 @@ export interface McpClientInterface {
   connect(config: McpServerConfig): Promise<void>;
   disconnect(): Promise<void>;
   listTools(): Promise<McpTool[]>;
-  callTool(name: string, parameters: Record<string, any>, language?: SupportedLanguage): Promise<McpToolResult>;
+  callTool(name: string, parameters: Record<string, any>, options?: McpCallToolOptions): Promise<McpToolResult>;
+  listResources(): Promise<McpResource[]>;
+  listResourceTemplates(): Promise<McpResourceTemplate[]>;
+  readResource(uri: string): Promise<McpResourceContents[]>;
+  subscribeResource(uri: string): Promise<void>;
+  listPrompts(): Promise<McpPrompt[]>;
+  getPrompt(name: string, args: Record<string, string>): Promise<McpPromptResult>;
+  onNotification(listener: McpNotificationListener): () => void;
+  onStatusChange(listener: (status: ConnectionStatus) => void): () => void;
+  setSamplingHandler(handler: McpSamplingHandler | null): void;
+  setRoots(roots: McpRoot[]): Promise<void>;
+  getServerInfo(): McpServerInfo | null;
+  setLogLevel(level: McpLogLevel): Promise<void>;
   isConnected(): boolean;
   setLanguage(language: SupportedLanguage): void;
 }
 
+export type TextDeltaHandler = (delta: string) => void;
+
+// A provider-independent message that can be added to an LLM conversation
+export interface LLMHistoryMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Progress reported by the server for one tool call made by the LLM
+export interface ToolProgressEvent extends McpProgress {
+  callId: string;
+  toolName: string;
+}
+
+// A one-off completion that does not use tools or the conversation history
+export interface LLMCompletionRequest {
+  messages: LLMHistoryMessage[];
+  systemPrompt?: string;
+  maxTokens?: number;
+  temperature?: number;
+  stopSequences?: string[];
+  signal?: AbortSignal;
+}
+
+export interface LLMCompletion {
+  text: string;
+  provider: LLMProvider;
+  model: string;
+  stopReason?: string; // As reported by the provider
+  usage?: LLMUsage;
+}
+
+// Token counts reported by the LLM API
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// Token usage of one or more turns with its estimated cost in USD
+export interface LLMUsageTotal extends LLMUsage {
+  cost?: number; // Unknown when none of the models has a price
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// The parts of a turn in the order they happened, in a provider-independent form
+export type LLMContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, any> }
+  | { type: 'tool_result'; toolUseId: string; content: string; isError: boolean };
+
+// Older history dropped to fit the context window while answering a turn
+export interface LLMContextCompaction {
+  droppedMessages: number;
+  summarized: boolean; // Whether the dropped messages were replaced by a summary
+  usage?: LLMUsage; // Of the summary requests
+}
+
+// A tool call made during a turn and its outcome
+export interface LLMToolCallRecord {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  content: string;
+  isError: boolean;
+  durationMs: number;
+}
+
+// Everything a turn produced: the answer and how it was reached
+export interface LLMTurnResult {
+  text: string; // The final answer
+  content: LLMContentBlock[];
+  toolCalls: LLMToolCallRecord[];
+  usage?: LLMUsage; // Summed over all LLM requests of the turn, when the API reports it
+  stopReason?: string; // Of the last LLM request, as reported by the provider
+  provider: LLMProvider;
+  model: string;
+  latencyMs: number;
+  compaction?: LLMContextCompaction;
+}
+
+// How tool calls requested by the LLM are handled, per tool
+export type ToolApprovalMode = 'allow' | 'ask' | 'deny';
+
+export interface ToolApprovalRequest {
+  callId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+}
+
+export interface ToolApprovalDecision {
+  approved: boolean;
+  arguments?: Record<string, any>; // The arguments to call the tool with, possibly edited
+  remember?: boolean; // Apply the decision to later calls of the tool in this session
+}
+
+export type ToolApprovalHandler = (request: ToolApprovalRequest) => Promise<ToolApprovalDecision>;
+
+export interface LLMRequestOptions {
+  signal?: AbortSignal; // Stops the LLM request and any running tool call
+  onToolProgress?: (event: ToolProgressEvent) => void;
+  approveToolCall?: ToolApprovalHandler; // Consulted before each tool call
+  onToolCallStart?: (call: McpToolCall) => void;
+  onToolCallEnd?: (result: McpToolResult) => void;
+}
+
+export interface ToolApprovalPolicyInterface {
+  getMode(toolName: string): ToolApprovalMode;
+  setMode(toolName: string, mode: ToolApprovalMode): void;
+  getModes(): Record<string, ToolApprovalMode>;
+  onChange(listener: (modes: Record<string, ToolApprovalMode>) => void): () => void;
+  createHandler(ask: ToolApprovalHandler): ToolApprovalHandler;
+}
+
 export interface LLMServiceInterface {
-  sendMessage(message: string): Promise<string>;
+  sendMessage(message: string, options?: LLMRequestOptions): Promise<LLMTurnResult>;
+  streamMessage(message: string, onTextDelta: TextDeltaHandler, options?: LLMRequestOptions): Promise<LLMTurnResult>;
+  addToHistory(messages: LLMHistoryMessage[]): void;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
   updateTools(tools: McpTool[]): void;
   clearHistory(): void;
   getConversationHistory(): any[];
@@ -126,7 +480,8 @@ export class McpError extends Error {
 }
 
 export class LLMError extends Error {
-  constructor(message: string, public provider?: LLMProvider) {
+  // turnResult holds what a failed turn did before the error, including the usage of its requests
+  constructor(message: string, public provider?: LLMProvider, public turnResult?: LLMTurnResult) {
     super(message);
     this.name = 'LLMError';
   }
@@ -0,0 +1,28 @@
+import { McpError } from '../types';
+
+/**
+ * Creates a signal for fetch() that aborts when the caller's signal does or when
+ * the timeout expires. Call dispose() once the request has finished.
+ */
+export function createRequestSignal(
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(new McpError('Request cancelled', 'CANCELLED'));
+  const timeout = setTimeout(() => controller.abort(new McpError('Request timeout', 'TIMEOUT')), timeoutMs);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort);
+  }
+
+  return {
+    signal: controller.signal,
+    dispose: () => {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
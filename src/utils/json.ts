@@ -0,0 +1,63 @@
+/**
+ * Finds the JSON objects embedded in free text, such as tool calls a model wrote
+ * between prose or inside a code fence. Braces are matched while skipping over
+ * strings, so nested objects and braces inside string values are handled.
+ */
+export function extractJsonObjects(text: string): any[] {
+  const objects: any[] = [];
+  let start = text.indexOf('{');
+
+  while (start !== -1) {
+    const end = findClosingBrace(text, start);
+    if (end !== -1) {
+      try {
+        objects.push(JSON.parse(text.slice(start, end + 1)));
+        start = text.indexOf('{', end + 1);
+        continue;
+      } catch (error) {
+        // Balanced but not JSON; try the next brace
+      }
+    }
+    start = text.indexOf('{', start + 1);
+  }
+
+  return objects;
+}
+
+/**
+ * Returns the index of the brace that closes the one at start, or -1 when the
+ * object is not closed
+ */
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+
+  return -1;
+}
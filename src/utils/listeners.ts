@@ -0,0 +1,29 @@
+/**
+ * A set of event listeners. Adding a listener returns a function that removes it,
+ * which fits React effect cleanups.
+ */
+export class ListenerSet<T> {
+  private listeners = new Set<(event: T) => void>();
+
+  add(listener: (event: T) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  emit(event: T): void {
+    this.listeners.forEach(listener => {
+      // A failing listener must not keep the others from running
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Listener error:', error);
+      }
+    });
+  }
+
+  clear(): void {
+    this.listeners.clear();
+  }
+}
@@ -0,0 +1,26 @@
+import { LLMHistoryMessage, McpPromptContent, McpPromptMessage } from '../types';
+import { formatResourceContents } from './resources';
+
+/**
+ * Converts the messages of an MCP prompt into plain-text messages that any
+ * LLM provider can add to its conversation
+ */
+export function promptMessagesToHistory(messages: McpPromptMessage[]): LLMHistoryMessage[] {
+  return messages.map(message => ({
+    role: message.role,
+    content: formatPromptContent(message.content)
+  }));
+}
+
+function formatPromptContent(content: McpPromptContent): string {
+  switch (content.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return formatResourceContents({ uri: content.resource.uri, name: content.resource.uri }, content.resource);
+    case 'image':
+      return `[Image (${content.mimeType}) not included]`;
+    default:
+      return '';
+  }
+}
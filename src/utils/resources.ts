@@ -0,0 +1,37 @@
+import { McpResource, McpResourceAttachment, McpResourceContents } from '../types';
+
+/**
+ * Prepends the contents of attached MCP resources to a chat message, so any
+ * LLM provider receives them as plain-text context
+ */
+export function buildMessageWithAttachments(message: string, attachments: McpResourceAttachment[]): string {
+  if (attachments.length === 0) {
+    return message;
+  }
+
+  const blocks = attachments.flatMap(({ resource, contents }) =>
+    contents.map(content => formatResourceContents(resource, content))
+  );
+
+  return `The following MCP resources are attached as context:
+
+${blocks.join('\n\n')}
+
+${message}`;
+}
+
+/**
+ * Formats one resource's contents as a text block for an LLM
+ */
+export function formatResourceContents(resource: McpResource, content: McpResourceContents): string {
+  const mimeType = content.mimeType || resource.mimeType || 'text/plain';
+
+  // Binary contents cannot be passed to every provider as text, so only describe them
+  const body = content.text !== undefined
+    ? content.text
+    : `[Binary content (${mimeType}, about ${Math.round((content.blob?.length || 0) * 3 / 4)} bytes) not included]`;
+
+  return `<resource uri="${content.uri}" name="${resource.name}" mimeType="${mimeType}">
+${body}
+</resource>`;
+}
@@ -0,0 +1,42 @@
+import { LLMCompletion, LLMCompletionRequest, McpSamplingRequest, McpSamplingResult } from '../types';
+
+// Provider stop reasons mapped to the values defined by MCP
+const MCP_STOP_REASONS: Record<string, string> = {
+  end_turn: 'endTurn',
+  stop: 'endTurn',
+  max_tokens: 'maxTokens',
+  length: 'maxTokens',
+  stop_sequence: 'stopSequence'
+};
+
+/**
+ * Converts a server's sampling request into a completion for the configured LLM
+ */
+export function toCompletionRequest(request: McpSamplingRequest): LLMCompletionRequest {
+  return {
+    messages: request.messages.map(message => ({
+      role: message.role,
+      content: message.content.type === 'text'
+        ? message.content.text
+        : `[Image (${message.content.mimeType}) not included]`
+    })),
+    systemPrompt: request.systemPrompt,
+    maxTokens: request.maxTokens,
+    temperature: request.temperature,
+    stopSequences: request.stopSequences
+  };
+}
+
+/**
+ * Converts an LLM completion into the result returned to the server
+ */
+export function toSamplingResult(completion: LLMCompletion): McpSamplingResult {
+  return {
+    role: 'assistant',
+    content: { type: 'text', text: completion.text },
+    model: completion.model,
+    ...(completion.stopReason && {
+      stopReason: MCP_STOP_REASONS[completion.stopReason] || completion.stopReason
+    })
+  };
+}
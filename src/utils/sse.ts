@@ -0,0 +1,82 @@
+/**
+ * Minimal Server-Sent Events reader for fetch() response bodies.
+ * EventSource cannot send custom headers or POST requests, which the MCP
+ * HTTP transports need, so the stream is parsed by hand.
+ */
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Reads events from an SSE stream until it ends, calling onEvent for each one
+ */
+export async function readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ServerSentEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let eventType: string | undefined;
+  let eventId: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    if (dataLines.length > 0) {
+      onEvent({ event: eventType, data: dataLines.join('\n'), id: eventId });
+    }
+    eventType = undefined;
+    dataLines = [];
+  };
+
+  const processLine = (rawLine: string) => {
+    const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+    // A blank line ends the current event; lines starting with ":" are comments
+    if (line === '') {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        eventType = value;
+        break;
+      case 'data':
+        dataLines.push(value);
+        break;
+      case 'id':
+        eventId = value;
+        break;
+      default:
+        // "retry" and unknown fields are ignored
+        break;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() || '';
+    lines.forEach(processLine);
+
+    if (done) {
+      dispatch();
+      return;
+    }
+  }
+}
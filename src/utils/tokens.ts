@@ -0,0 +1,14 @@
+// Rough number of characters per token for English text and JSON
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many tokens a text or a JSON-serializable value takes up. This
+ * is an approximation meant for staying clear of context limits, not for billing.
+ */
+export function estimateTokens(value: unknown): number {
+  if (value === undefined || value === null) {
+    return 0;
+  }
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
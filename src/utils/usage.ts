@@ -0,0 +1,44 @@
+import { LLMProvider, LLMUsage, LLMUsageTotal } from '../types';
+import { estimateCost } from '../config/pricing';
+
+/**
+ * Sums two token counts. The result is unknown only when neither is known, so
+ * requests whose API did not report usage do not erase the others.
+ */
+export function addUsage(total?: LLMUsage, usage?: LLMUsage): LLMUsage | undefined {
+  if (!total || !usage) {
+    return total ?? usage;
+  }
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens
+  };
+}
+
+/**
+ * Totals the token usage and estimated cost of turns or single completions.
+ * Models without a price add their tokens but not to the cost.
+ */
+export function sumTurnUsage(results: Array<{ provider: LLMProvider; model: string; usage?: LLMUsage }>): LLMUsageTotal {
+  const total: LLMUsageTotal = { inputTokens: 0, outputTokens: 0 };
+
+  for (const result of results) {
+    if (!result.usage) {
+      continue;
+    }
+    total.inputTokens += result.usage.inputTokens;
+    total.outputTokens += result.usage.outputTokens;
+
+    const cost = estimateCost(result.provider, result.model, result.usage);
+    if (cost !== undefined) {
+      total.cost = (total.cost ?? 0) + cost;
+    }
+  }
+
+  return total;
+}
+
+// Small amounts get more decimals so that a cheap message does not show as $0.00
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+}